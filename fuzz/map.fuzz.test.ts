@@ -63,5 +63,54 @@ describe(`Map (fuzz) (Seed: ${seed})`, () => {
     for (const [key, value] of adapter.getIterable(map)) {
       expect(value).toEqual(expected[key]);
     }
+
+    for (const key in expected) {
+      adapter.remove(map, Number(key));
+    }
+
+    expect(map).toEqual(adapter.create());
+  });
+
+  it('Keeps numeric and string keys distinct when their hash codes collide', () => {
+    const random = rng.aleaRNGFactory(seed);
+    // Numeric keys and their string equivalents always share a hash code, and the small range of hash codes forces
+    // many keys into each collision bucket.
+    const adapter = new MapAdapter<number|string, { data: number }>({
+      hash: (key) => Number(key) % 16,
+    });
+    const map = adapter.create();
+    const expected = new Map<number|string, { data: number }>();
+
+    for (let i = 0; i < 100000; i++) {
+      const num = random.uInt32() % 2000;
+      const key = random.uFloat32() < .5 ? num : String(num);
+
+      // 2/3 of the time, set the key, otherwise remove it
+      if (random.uFloat32() < .67) {
+        const data = { data: i };
+        adapter.set(map, key, data);
+        expected.set(key, data);
+      } else {
+        adapter.remove(map, key);
+        expected.delete(key);
+      }
+
+      expect(adapter.getSize(map)).toEqual(expected.size);
+    }
+
+    for (let num = 0; num < 2000; num++) {
+      for (const key of [num, String(num)]) {
+        expect(adapter.has(map, key)).toBe(expected.has(key));
+        expect(adapter.get(map, key)).toBe(expected.get(key));
+      }
+    }
+
+    for (const [key, value] of adapter.getIterable(map)) {
+      expect(value).toBe(expected.get(key));
+    }
+
+    expected.forEach((value, key) => adapter.remove(map, key));
+
+    expect(map).toEqual(adapter.create());
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,168 @@
+import produce from 'immer';
+import {createEntityAdapter, EntityState} from './entityadapter';
+
+interface Book {
+  id: string;
+  title: string;
+}
+
+interface BooksState extends EntityState<Book, string> {
+  selectedBookId: string|null;
+}
+
+const book = (id: string, title = `title ${id}`): Book => ({ id, title });
+
+describe('Entity adapter', () => {
+  const unsortedAdapter = createEntityAdapter<Book, string>();
+  const sortedAdapter = createEntityAdapter<Book, string>({ sortComparer: (a, b) => a.title.localeCompare(b.title) });
+
+  const sortById = (books: Book[]) => books.slice().sort((a, b) => a.id.localeCompare(b.id));
+
+  it('gets the initial state', () => {
+    const state = unsortedAdapter.getInitialState({ selectedBookId: null });
+    const {selectAll, selectTotal} = unsortedAdapter.getSelectors();
+
+    expect(state.selectedBookId).toBeNull();
+    expect(selectAll(state)).toEqual([]);
+    expect(selectTotal(state)).toBe(0);
+  });
+
+  it('adds entities', () => {
+    const state = produce(unsortedAdapter.getInitialState(), draft => {
+      unsortedAdapter.addOne(book('a'), draft);
+      unsortedAdapter.addOne(book('a', 'ignored'), draft);
+      return unsortedAdapter.addMany([book('b'), book('c'), book('b', 'ignored'), book('a', 'ignored')], draft);
+    });
+    const {selectAll, selectEntities, selectIds, selectTotal} = unsortedAdapter.getSelectors();
+
+    expect(sortById(selectAll(state))).toEqual([book('a'), book('b'), book('c')]);
+    expect(selectEntities(state)).toEqual({ a: book('a'), b: book('b'), c: book('c') });
+    expect(selectIds(state).sort()).toEqual(['a', 'b', 'c']);
+    expect(selectTotal(state)).toBe(3);
+  });
+
+  it('keeps entities in sorted order', () => {
+    const state = produce(sortedAdapter.getInitialState(), draft => {
+      sortedAdapter.addMany([book('a', 'c'), book('b', 'a'), book('c', 'b')], draft);
+    });
+    const {selectAll, selectIds} = sortedAdapter.getSelectors();
+
+    expect(selectIds(state)).toEqual(['b', 'c', 'a']);
+
+    const next = produce(state, draft => {
+      sortedAdapter.updateOne({ id: 'b', changes: { title: 'd' } }, draft);
+      sortedAdapter.upsertOne(book('d', 'aa'), draft);
+    });
+
+    expect(selectAll(next)).toEqual([book('d', 'aa'), book('c', 'b'), book('a', 'c'), book('b', 'd')]);
+    expect(selectIds(state)).toEqual(['b', 'c', 'a']);
+  });
+
+  [unsortedAdapter, sortedAdapter].forEach((adapter, i) => {
+    const description = i === 0 ? 'unsorted' : 'sorted';
+    const {selectAll, selectEntities, selectTotal} = adapter.getSelectors();
+    const initialState = produce(adapter.getInitialState(), draft => {
+      adapter.setAll([book('a'), book('b'), book('c')], draft);
+    });
+
+    it(`sets entities (${description})`, () => {
+      const state = produce(initialState, draft => {
+        adapter.setOne(book('a', 'title z'), draft);
+        adapter.setMany([book('b', 'title y'), book('d')], draft);
+      });
+
+      expect(sortById(selectAll(state))).toEqual([book('a', 'title z'), book('b', 'title y'), book('c'), book('d')]);
+
+      const replaced = produce(state, draft => {
+        adapter.setAll([book('e'), book('f'), book('e', 'title x')], draft);
+      });
+
+      expect(sortById(selectAll(replaced))).toEqual([book('e', 'title x'), book('f')]);
+    });
+
+    it(`removes entities (${description})`, () => {
+      const state = produce(initialState, draft => {
+        adapter.removeOne('a', draft);
+        adapter.removeOne('z', draft);
+      });
+
+      expect(sortById(selectAll(state))).toEqual([book('b'), book('c')]);
+      expect(sortById(selectAll(produce(initialState, draft => adapter.removeMany(['a', 'c'], draft))))).toEqual([book('b')]);
+      expect(sortById(selectAll(produce(initialState, draft => adapter.removeMany(b => b.id !== 'a', draft))))).toEqual([book('a')]);
+      expect(selectTotal(produce(initialState, draft => adapter.removeAll(draft)))).toBe(0);
+    });
+
+    it(`updates entities (${description})`, () => {
+      const state = produce(initialState, draft => {
+        adapter.updateOne({ id: 'a', changes: { title: 'updated a' } }, draft);
+        adapter.updateMany([{ id: 'b', changes: { id: 'e' } }, { id: 'z', changes: { title: 'ignored' } }], draft);
+      });
+
+      expect(selectEntities(state)).toEqual({ a: book('a', 'updated a'), c: book('c'), e: book('e', 'title b') });
+    });
+
+    it(`upserts entities (${description})`, () => {
+      const state = produce(initialState, draft => {
+        adapter.upsertOne({ id: 'a', title: 'upserted a' }, draft);
+        adapter.upsertMany([book('d'), { id: 'b', title: 'upserted b' }, { id: 'd', title: 'upserted d' }], draft);
+      });
+
+      expect(selectEntities(state)).toEqual({
+        a: book('a', 'upserted a'),
+        b: book('b', 'upserted b'),
+        c: book('c'),
+        d: book('d', 'upserted d'),
+      });
+    });
+
+    it(`maps entities (${description})`, () => {
+      const state = produce(initialState, draft => {
+        adapter.mapOne({ id: 'a', map: entity => ({ ...entity, title: 'mapped a' }) }, draft);
+        adapter.mapOne({ id: 'z', map: entity => ({ ...entity, title: 'ignored' }) }, draft);
+        adapter.map(entity => entity.id === 'c' ? { ...entity, title: 'mapped c' } : entity, draft);
+      });
+
+      expect(selectEntities(state)).toEqual({ a: book('a', 'mapped a'), b: book('b'), c: book('c', 'mapped c') });
+    });
+  });
+
+  it('memoizes selectors', () => {
+    const state = produce(unsortedAdapter.getInitialState(), draft => {
+      unsortedAdapter.addMany([book('a'), book('b')], draft);
+    });
+    const {selectAll, selectEntities} = unsortedAdapter.getSelectors();
+
+    expect(selectAll(state)).toBe(selectAll(state));
+    expect(selectEntities(state)).toBe(selectEntities(state));
+
+    const next = produce(state, draft => {
+      unsortedAdapter.removeOne('a', draft);
+    });
+
+    expect(selectAll(next)).not.toBe(selectAll(state));
+    expect(selectAll(next)).toEqual([book('b')]);
+  });
+
+  it('selects from a larger state', () => {
+    const rootState = {
+      books: produce(unsortedAdapter.getInitialState({ selectedBookId: 'a' }), draft => {
+        unsortedAdapter.addOne(book('a'), draft);
+      }) as BooksState,
+    };
+    const {selectAll, selectById, selectTotal} = unsortedAdapter.getSelectors((state: typeof rootState) => state.books);
+
+    expect(selectAll(rootState)).toEqual([book('a')]);
+    expect(selectTotal(rootState)).toBe(1);
+    expect(selectById(rootState, 'a')).toEqual(book('a'));
+    expect(selectById(rootState, 'b')).toBeUndefined();
+  });
+
+  it('uses a custom id selector', () => {
+    const adapter = createEntityAdapter<{ isbn: number, title: string }, number>({ selectId: b => b.isbn });
+    const state = produce(adapter.getInitialState(), draft => {
+      adapter.addMany([{ isbn: 2, title: 'two' }, { isbn: 1, title: 'one' }], draft);
+    });
+
+    expect(adapter.getSelectors().selectEntities(state)).toEqual({ 1: { isbn: 1, title: 'one' }, 2: { isbn: 2, title: 'two' } });
+  });
+});
@@ -0,0 +1,293 @@
+import {IMap, MapAdapter} from './map';
+import {Comparer} from './sortedcollection';
+import {ISortedMap, Key, SortedMapAdapter} from './sortedmap';
+import {BatchSummary} from './util';
+
+/**
+ * The state managed by an EntityAdapter. Unlike @ngrx/entity, the entities are stored in a single IMap (or ISortedMap,
+ * when the adapter has a sortComparer) rather than an ids array and an entities object, so changing an entity only
+ * copies the part of the state it's stored in.
+ */
+export interface EntityState<T, Id extends Key = Key> {
+  entities: IMap<Id, T> | ISortedMap<Id, T, T>;
+}
+
+export type IdSelector<T, Id extends Key = Key> = (entity: T) => Id;
+
+/** The changes to make to an entity, by id, as passed to updateOne and updateMany. */
+export interface Update<T, Id extends Key = Key> {
+  id: Id;
+  changes: Partial<T>;
+}
+
+/** A function which produces a new version of an entity by id, as passed to mapOne. */
+export interface EntityMapOne<T, Id extends Key = Key> {
+  id: Id;
+  map: (entity: T) => T;
+}
+
+export type Predicate<T> = (entity: T) => boolean;
+
+export interface Dictionary<T> {
+  [id: string]: T|undefined;
+}
+
+export interface EntitySelectors<T, S, Id extends Key = Key> {
+  selectIds: (state: S) => Id[];
+  selectEntities: (state: S) => Dictionary<T>;
+  selectAll: (state: S) => T[];
+  selectTotal: (state: S) => number;
+  /** Not part of @ngrx/entity. Gets an entity by id, without creating the entities object. */
+  selectById: (state: S, id: Id) => T|undefined;
+}
+
+type EntityStorage<T, Id extends Key> = EntityState<T, Id>['entities'];
+
+// The methods shared by MapAdapter and SortedMapAdapter which are used to store entities. An adapter is only ever
+// passed the kind of storage it creates.
+interface EntityStorageAdapter<T, Id extends Key> {
+  create(): EntityStorage<T, Id>;
+  createFrom(entries: Array<[Id, T]>): EntityStorage<T, Id>;
+  get(entities: EntityStorage<T, Id>, key: Id): T|undefined;
+  has(entities: EntityStorage<T, Id>, key: Id): boolean;
+  set(entities: EntityStorage<T, Id>, key: Id, value: T): void;
+  setMany(entities: EntityStorage<T, Id>, entries: Iterable<[Id, T]>): BatchSummary;
+  update(entities: EntityStorage<T, Id>, key: Id, updater: (item: T) => T|void): T|void;
+  remove(entities: EntityStorage<T, Id>, key: Id): void;
+  removeMany(entities: EntityStorage<T, Id>, keys: Iterable<Id>): BatchSummary;
+  getSize(entities: EntityStorage<T, Id>): number;
+  getIterable(entities: EntityStorage<T, Id>): Iterable<[Id, T]>;
+}
+
+/**
+ * An adapter with the same methods as the EntityAdapter of @ngrx/entity, which stores entities in an Immerutable
+ * IMap or ISortedMap. Like the other adapters, the state passed to each method is modified in place (so it should be
+ * an Immer draft) and then returned, so reducers which return the result of an adapter method work unchanged.
+ */
+export class EntityAdapter<T, Id extends Key = Key> {
+  readonly selectId: IdSelector<T, Id>;
+  readonly sortComparer: false | Comparer<T>;
+  private storageAdapter: EntityStorageAdapter<T, Id>;
+
+  /**
+   * @param options.selectId Gets the id of an entity. Optional (by default uses entity.id).
+   * @param options.sortComparer Compares two entities, to keep them in sorted order (in an ISortedMap). Optional (by
+   *                             default the entities are stored in an IMap, which isn't ordered).
+   */
+  constructor(options: { selectId?: IdSelector<T, Id>, sortComparer?: false | Comparer<T> } = {}) {
+    this.selectId = options.selectId || ((entity: any) => entity.id);
+    this.sortComparer = options.sortComparer || false;
+
+    // The sortComparer compares whole entities (as in @ngrx/entity), so there's no smaller key which could be derived
+    // from them: each entity is its own ordering key. The sorted collection refers to the same objects as the map, so
+    // this takes no extra memory, but serializing the state writes each entity twice. Changes which don't affect the
+    // order still replace the entity in the sorted collection, so it doesn't hold on to old versions of the entities.
+    this.storageAdapter = this.sortComparer ?
+      new SortedMapAdapter<Id, T, T>({ getOrderingKey: (entity) => entity, orderComparer: this.sortComparer }) :
+      new MapAdapter<Id, T>();
+  }
+
+  /** Creates the initial state, including any additional properties. */
+  getInitialState(): EntityState<T, Id>;
+  getInitialState<S extends object>(state: S): EntityState<T, Id> & S;
+  getInitialState(state: object = {}): EntityState<T, Id> {
+    return { ...state, entities: this.storageAdapter.create() };
+  }
+
+  /** Adds the entity, unless there's already an entity with its id. */
+  addOne<S extends EntityState<T, Id>>(entity: T, state: S): S {
+    const id = this.selectId(entity);
+    if (!this.storageAdapter.has(state.entities, id)) this.storageAdapter.set(state.entities, id, entity);
+
+    return state;
+  }
+
+  /** Adds each of the entities, unless there's already an entity with its id (including earlier in the entities). */
+  addMany<S extends EntityState<T, Id>>(entities: T[], state: S): S {
+    const added = new Map<Id, T>();
+
+    for (const entity of entities) {
+      const id = this.selectId(entity);
+      if (!added.has(id) && !this.storageAdapter.has(state.entities, id)) added.set(id, entity);
+    }
+
+    this.storageAdapter.setMany(state.entities, added.entries());
+
+    return state;
+  }
+
+  /** Replaces all the entities. */
+  setAll<S extends EntityState<T, Id>>(entities: T[], state: S): S {
+    state.entities = this.storageAdapter.createFrom(entities.map(entity => [this.selectId(entity), entity] as [Id, T]));
+
+    return state;
+  }
+
+  /** Adds the entity, replacing any entity with its id. */
+  setOne<S extends EntityState<T, Id>>(entity: T, state: S): S {
+    this.storageAdapter.set(state.entities, this.selectId(entity), entity);
+
+    return state;
+  }
+
+  /** Adds each of the entities, replacing any entities with their ids. */
+  setMany<S extends EntityState<T, Id>>(entities: T[], state: S): S {
+    this.storageAdapter.setMany(state.entities, entities.map(entity => [this.selectId(entity), entity] as [Id, T]));
+
+    return state;
+  }
+
+  removeOne<S extends EntityState<T, Id>>(id: Id, state: S): S {
+    this.storageAdapter.remove(state.entities, id);
+
+    return state;
+  }
+
+  /** Removes the entities with the ids, or the entities which match the predicate. */
+  removeMany<S extends EntityState<T, Id>>(idsOrPredicate: Id[] | Predicate<T>, state: S): S {
+    const ids = typeof idsOrPredicate === 'function' ?
+      this.getEntries(state).filter(([id, entity]) => idsOrPredicate(entity)).map(([id]) => id) :
+      idsOrPredicate;
+
+    this.storageAdapter.removeMany(state.entities, ids);
+
+    return state;
+  }
+
+  removeAll<S extends EntityState<T, Id>>(state: S): S {
+    state.entities = this.storageAdapter.create();
+
+    return state;
+  }
+
+  /**
+   * Applies the changes to the entity with the id (as a shallow merge), if there is one. If the changes include a new
+   * id, the entity is moved to it (replacing any entity with the new id).
+   */
+  updateOne<S extends EntityState<T, Id>>(update: Update<T, Id>, state: S): S {
+    const existing = this.storageAdapter.get(state.entities, update.id);
+    if (existing === undefined) return state;
+
+    const updated = { ...existing, ...update.changes } as T;
+    const updatedId = this.selectId(updated);
+
+    if (updatedId === update.id) {
+      this.storageAdapter.update(state.entities, update.id, () => updated);
+    } else {
+      this.storageAdapter.remove(state.entities, update.id);
+      this.storageAdapter.set(state.entities, updatedId, updated);
+    }
+
+    return state;
+  }
+
+  updateMany<S extends EntityState<T, Id>>(updates: Array<Update<T, Id>>, state: S): S {
+    for (const update of updates) {
+      this.updateOne(update, state);
+    }
+
+    return state;
+  }
+
+  /** Adds the entity, or applies it as changes to the entity with its id (as a shallow merge). */
+  upsertOne<S extends EntityState<T, Id>>(entity: T, state: S): S {
+    return this.upsertMany([entity], state);
+  }
+
+  /**
+   * Adds each of the entities, or applies them as changes to the entities with their ids (as a shallow merge). New and
+   * changed entities are stored in one batch.
+   */
+  upsertMany<S extends EntityState<T, Id>>(entities: T[], state: S): S {
+    const upserted = new Map<Id, T>();
+
+    for (const entity of entities) {
+      const id = this.selectId(entity);
+      const existing = upserted.has(id) ? upserted.get(id) : this.storageAdapter.get(state.entities, id);
+
+      upserted.set(id, existing === undefined ? entity : { ...existing, ...entity });
+    }
+
+    this.storageAdapter.setMany(state.entities, upserted.entries());
+
+    return state;
+  }
+
+  /** Replaces the entity with the id with the result of the map function, if there is one. */
+  mapOne<S extends EntityState<T, Id>>(map: EntityMapOne<T, Id>, state: S): S {
+    const existing = this.storageAdapter.get(state.entities, map.id);
+    if (existing === undefined) return state;
+
+    return this.updateOne({ id: map.id, changes: map.map(existing) }, state);
+  }
+
+  /** Replaces each of the entities with the result of the map function. Entities which are returned as-is are skipped. */
+  map<S extends EntityState<T, Id>>(map: (entity: T) => T, state: S): S {
+    const updates: Array<Update<T, Id>> = [];
+
+    for (const [id, entity] of this.getEntries(state)) {
+      const mapped = map(entity);
+      if (mapped !== entity) updates.push({ id, changes: mapped });
+    }
+
+    return this.updateMany(updates, state);
+  }
+
+  /**
+   * Gets selectors for the ids, entities (as an object by id), array of entities and number of entities, as well as a
+   * selector for an entity by id. Each selector recomputes its result only when the entities change. The ids and
+   * entities are in sorted order if the adapter has a sortComparer.
+   * @param selectState Selects the entity state from a larger state (such as the root state of the store). Optional.
+   */
+  getSelectors(): EntitySelectors<T, EntityState<T, Id>, Id>;
+  getSelectors<V>(selectState: (state: V) => EntityState<T, Id>): EntitySelectors<T, V, Id>;
+  getSelectors(selectState?: (state: any) => EntityState<T, Id>): EntitySelectors<T, any, Id> {
+    const selectEntries = memoizeLast((entities: EntityStorage<T, Id>) => {
+      return Array.from(this.storageAdapter.getIterable(entities));
+    });
+
+    const selectIds = memoizeLast((entities: EntityStorage<T, Id>) => selectEntries(entities).map(([id]) => id));
+    const selectAll = memoizeLast((entities: EntityStorage<T, Id>) => selectEntries(entities).map(([id, entity]) => entity));
+    const selectEntities = memoizeLast((entities: EntityStorage<T, Id>) => {
+      const dictionary: Dictionary<T> = {};
+
+      for (const [id, entity] of selectEntries(entities)) {
+        dictionary[id] = entity;
+      }
+
+      return dictionary;
+    });
+
+    const getEntities = (state: any): EntityStorage<T, Id> => (selectState ? selectState(state) : state).entities;
+
+    return {
+      selectIds: (state) => selectIds(getEntities(state)),
+      selectEntities: (state) => selectEntities(getEntities(state)),
+      selectAll: (state) => selectAll(getEntities(state)),
+      selectTotal: (state) => this.storageAdapter.getSize(getEntities(state)),
+      selectById: (state, id) => this.storageAdapter.get(getEntities(state), id),
+    };
+  }
+
+  private getEntries(state: EntityState<T, Id>): Array<[Id, T]> {
+    return Array.from(this.storageAdapter.getIterable(state.entities));
+  }
+}
+
+/** Creates an EntityAdapter, in the same way as createEntityAdapter from @ngrx/entity. */
+export function createEntityAdapter<T, Id extends Key = Key>(
+  options: { selectId?: IdSelector<T, Id>, sortComparer?: false | Comparer<T> } = {},
+): EntityAdapter<T, Id> {
+  return new EntityAdapter<T, Id>(options);
+}
+
+// Remembers the result for the most recent argument, as the entities are replaced whenever they change.
+function memoizeLast<A, R>(fn: (arg: A) => R): (arg: A) => R {
+  let last: { arg: A, result: R }|undefined;
+
+  return (arg: A) => {
+    if (last === undefined || last.arg !== arg) last = { arg, result: fn(arg) };
+
+    return last.result;
+  };
+}
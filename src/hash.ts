@@ -24,6 +24,7 @@
 
 // This code is adapted from Facebook's ImmutableJS.
 
+/** Computes the 32 bit integer hash code used by MapAdapter for a number or string key. */
 export function hash(key: number|string): number {
   if (key == null) {
     return 0;
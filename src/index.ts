@@ -1,4 +1,10 @@
-export {IMap, ISingleValueNode, Key, MapAdapter} from './map';
-export {ISortedCollection, LookupNodeInfo, ParentPath, SortedCollectionAdapter} from './sortedcollection';
-export {GetOrderingKey, IKeyWithOrder, ISortedMap, SortedMapAdapter} from './sortedmap';
-export {LruCacheAdapter, ILruCache} from './lrucache';
\ No newline at end of file
+export {hash} from './hash';
+export {HashFunction, ILegacyMap, IMap, ISingleValueNode, Key, KeyEqualityComparer, MapAdapter, MapChange} from './map';
+export {BatchSummary} from './util';
+export {BoundComparer, ISortedCollection, LookupNodeInfo, ParentPath, SortedCollectionAdapter, SortedCollectionChange, SortedCollectionRange} from './sortedcollection';
+export {GetOrderingKey, IKeyWithOrder, ISortedMap, SortedMapAdapter, SortedMapChange, SortedMapRange} from './sortedmap';
+export {IMultiSortedMap, MultiSortedMapAdapter, SortIndexDefinition} from './multisortedmap';
+export {EvictionPolicy, LruCacheAdapter, LruCacheStats, ILruCache} from './lrucache';
+export {memoize, MemoizedFunction, MemoizeOptions} from './memoize';
+export {createEntityAdapter, Dictionary, EntityAdapter, EntityMapOne, EntitySelectors, EntityState, IdSelector, Predicate, Update} from './entityadapter';
+export {createRtkEntityAdapter, EntitiesArg, PayloadAction, RtkEntityAdapter} from './rtkentityadapter';
\ No newline at end of file
@@ -1,4 +1,6 @@
+import produce from 'immer';
 import {LruCacheAdapter} from './lrucache';
+import {IBTreeNode} from './sortedcollection';
 
 const range = (start: number, end: number) => new Array(end - start + 1).join().split(',').map((empty, i) => i + start);
 
@@ -22,6 +24,688 @@ describe('LRU Cache', () => {
     ]);
   });
 
+  it('sets many items and expires old items once', () => {
+    const adapter = new LruCacheAdapter<string, string>(4);
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'a');
+    adapter.set(lru, 'b', 'b');
+
+    const summary = adapter.setMany(lru, [['c', 'c'], ['a', 'a2'], ['d', 'd'], ['e', 'e']]);
+
+    expect(summary).toEqual({ added: 3, updated: 1, removed: 1 });
+    expect(Array.from(adapter.getIterable(lru))).toEqual([
+      ['c', 'c'],
+      ['a', 'a2'],
+      ['d', 'd'],
+      ['e', 'e'],
+    ]);
+  });
+
+  it('updates many items and treats them as more recent', () => {
+    const adapter = new LruCacheAdapter<string, string>(4);
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c']]);
+
+    const summary = adapter.updateMany(lru, ['b', 'a', 'z'], (item, key) => item + key);
+
+    expect(summary).toEqual({ added: 0, updated: 2, removed: 0 });
+    expect(Array.from(adapter.getIterable(lru))).toEqual([
+      ['c', 'c'],
+      ['b', 'bb'],
+      ['a', 'aa'],
+    ]);
+  });
+
+  it('removes many items', () => {
+    const adapter = new LruCacheAdapter<string, string>(4);
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c']]);
+
+    expect(adapter.removeMany(lru, ['a', 'c', 'z'])).toEqual({ added: 0, updated: 0, removed: 2 });
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['b']);
+  });
+
+  it('treats expired items as missing', () => {
+    let now = 1000;
+    const adapter = new LruCacheAdapter<string, string>(4, { ttl: 100, now: () => now });
+    const lru = adapter.create();
+    const updater = jest.fn();
+
+    adapter.set(lru, 'a', 'a');
+    adapter.set(lru, 'b', 'b', { ttl: 200 });
+    now = 1100;
+
+    expect(adapter.get(lru, 'a')).toBeUndefined();
+    expect(adapter.peek(lru, 'a')).toBeUndefined();
+    expect(adapter.has(lru, 'a')).toBe(false);
+    expect(adapter.update(lru, 'a', updater)).toBeUndefined();
+    expect(adapter.updateMany(lru, ['a'], updater)).toEqual({ added: 0, updated: 0, removed: 0 });
+    expect(updater).not.toHaveBeenCalled();
+    expect(adapter.get(lru, 'b')).toBe('b');
+    expect(adapter.asReadonlyMap(lru).has('a')).toBe(false);
+
+    // Expired entries remain until they are purged.
+    expect(adapter.getSize(lru)).toBe(2);
+  });
+
+  it('restarts the time-to-live when an item is set again', () => {
+    let now = 0;
+    const adapter = new LruCacheAdapter<string, string>(4, { ttl: 100, now: () => now });
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'a');
+    now = 150;
+    adapter.set(lru, 'a', 'a2');
+    now = 200;
+
+    expect(adapter.get(lru, 'a')).toBe('a2');
+  });
+
+  it('does not expire items without a time-to-live', () => {
+    let now = 0;
+    const adapter = new LruCacheAdapter<string, string>(4, { now: () => now });
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'a');
+    adapter.set(lru, 'b', 'b', { ttl: 10 });
+    now = Number.MAX_SAFE_INTEGER;
+
+    expect(adapter.has(lru, 'a')).toBe(true);
+    expect(adapter.has(lru, 'b')).toBe(false);
+  });
+
+  it('purges expired items', () => {
+    let now = 0;
+    const adapter = new LruCacheAdapter<string, string>(4, { now: () => now });
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'a', { ttl: 10 });
+    adapter.set(lru, 'b', 'b', { ttl: 30 });
+    adapter.set(lru, 'c', 'c', { ttl: 20 });
+    adapter.set(lru, 'd', 'd');
+    now = 20;
+
+    expect(adapter.purgeExpired(lru)).toEqual([['a', 'a'], ['c', 'c']]);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['b', 'd']);
+    expect(adapter.purgeExpired(lru, 30)).toEqual([['b', 'b']]);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['d']);
+  });
+
+  it('expires old items by weight', () => {
+    const adapter = new LruCacheAdapter<string, string>(Infinity, {
+      weigher: (key, value) => value.length,
+      maxWeight: 10,
+      slack: 0,
+    });
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'aaaa');
+    adapter.set(lru, 'b', 'bbbb');
+    adapter.set(lru, 'c', 'cc');
+
+    expect(lru.totalWeight).toBe(10);
+    expect(adapter.getSize(lru)).toBe(3);
+
+    adapter.set(lru, 'd', 'ddddd');
+
+    expect(lru.totalWeight).toBe(7);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['c', 'd']);
+  });
+
+  it('keeps the total weight up to date', () => {
+    const adapter = new LruCacheAdapter<string, string>(Infinity, {
+      weigher: (key, value) => value.length,
+      maxWeight: 100,
+    });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'bb'], ['a', 'aaa']]);
+    expect(lru.totalWeight).toBe(5);
+
+    adapter.set(lru, 'b', 'b');
+    expect(lru.totalWeight).toBe(4);
+
+    adapter.update(lru, 'a', (value) => value + value);
+    expect(lru.totalWeight).toBe(7);
+
+    adapter.updateMany(lru, ['a', 'b'], () => 'xx');
+    expect(lru.totalWeight).toBe(4);
+
+    adapter.removeMany(lru, ['a', 'a']);
+    expect(lru.totalWeight).toBe(2);
+
+    adapter.remove(lru, 'b');
+    expect(lru.totalWeight).toBe(0);
+  });
+
+  it('allows the total weight to exceed the max weight by the slack', () => {
+    const adapter = new LruCacheAdapter<number, number>(Infinity, {
+      weigher: (key, value) => value,
+      maxWeight: 100,
+    });
+    const lru = adapter.create();
+
+    range(1, 11).forEach(i => adapter.set(lru, i, 10));
+    expect(adapter.getSize(lru)).toBe(11);
+
+    adapter.set(lru, 12, 10);
+    expect(adapter.getSize(lru)).toBe(10);
+    expect(lru.totalWeight).toBe(100);
+  });
+
+  it('evicts by both size and weight', () => {
+    const adapter = new LruCacheAdapter<string, string>(2, {
+      weigher: (key, value) => value.length,
+      maxWeight: 10,
+      slack: 0,
+    });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c']]);
+
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['b', 'c']);
+
+    adapter.update(lru, 'b', () => 'bbbbbbbbbb');
+
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['b']);
+  });
+
+  it('requires a weigher when a max weight is set', () => {
+    expect(() => new LruCacheAdapter<string, string>(10, { maxWeight: 10 })).toThrow();
+  });
+
+  it('evicts items with no slack', () => {
+    const adapter = new LruCacheAdapter<number, number>(10, { slack: 0 });
+    const lru = adapter.create();
+
+    range(1, 11).forEach(i => adapter.set(lru, i, i));
+
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(range(2, 11));
+  });
+
+  it('returns evicted items from set', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<string, string>(2, { slack: 0, onEvict });
+    const lru = adapter.create();
+
+    expect(adapter.set(lru, 'a', 'a')).toEqual([]);
+    expect(adapter.set(lru, 'b', 'b')).toEqual([]);
+    expect(adapter.set(lru, 'c', 'c')).toEqual([['a', 'a']]);
+    expect(onEvict.mock.calls).toEqual([['a', 'a']]);
+  });
+
+  it('reports evictions from setMany', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<string, string>(2, { slack: 0, onEvict });
+    const lru = adapter.create();
+
+    expect(adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c'], ['d', 'd']])).toEqual({ added: 4, updated: 0, removed: 2 });
+    expect(onEvict.mock.calls).toEqual([['a', 'a'], ['b', 'b']]);
+  });
+
+  it('reports evictions from update', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<string, string>(Infinity, {
+      weigher: (key, value) => value.length,
+      maxWeight: 4,
+      slack: 0,
+      onEvict,
+    });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c']]);
+
+    expect(adapter.update(lru, 'c', () => 'ccc')).toBe('ccc');
+    expect(onEvict.mock.calls).toEqual([['a', 'a']]);
+  });
+
+  it('trims items within the slack', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<number, number>(10, { onEvict });
+    const lru = adapter.create();
+
+    range(1, 11).forEach(i => adapter.set(lru, i, i));
+    expect(onEvict).not.toHaveBeenCalled();
+
+    expect(adapter.trim(lru)).toEqual([[1, 1]]);
+    expect(onEvict.mock.calls).toEqual([[1, 1]]);
+    expect(adapter.trim(lru)).toEqual([]);
+  });
+
+  it('trims items within the slack in caches created by older versions', () => {
+    const adapter = new LruCacheAdapter<number, number>(10, { slack: 0.5 });
+    const lru = adapter.create();
+    delete lru.totalWeight;
+
+    range(1, 15).forEach(i => adapter.set(lru, i, i));
+    expect(adapter.getSize(lru)).toBe(15);
+
+    adapter.set(lru, 16, 16);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(range(7, 16));
+  });
+
+  it('calls onEvict for purged items', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<string, string>(10, { ttl: 10, now: () => 100, onEvict });
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'a');
+    adapter.purgeExpired(lru, 110);
+
+    expect(onEvict.mock.calls).toEqual([['a', 'a']]);
+  });
+
+  it('does not call onEvict for removed items', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<string, string>(10, { onEvict });
+    const lru = adapter.create();
+
+    adapter.set(lru, 'a', 'a');
+    adapter.remove(lru, 'a');
+
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it('never exceeds the capacity in strict mode', () => {
+    const adapter = new LruCacheAdapter<number, number>(10, { strict: true, slack: 0.5 });
+    const lru = adapter.create();
+
+    range(1, 11).forEach(i => adapter.set(lru, i, i));
+
+    expect(adapter.getSize(lru)).toBe(10);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(range(2, 11));
+  });
+
+  it('evicts items from caches created by older versions', () => {
+    const adapter = new LruCacheAdapter<number, number>(10, { slack: 0 });
+    const lru = adapter.create();
+    range(1, 10).forEach(i => adapter.set(lru, i, i));
+
+    // Older versions didn't store the counts of B-tree nodes, the capacity or the total weight.
+    const removeCounts = (node: IBTreeNode<any>) => {
+      delete (node as Partial<IBTreeNode<any>>).count;
+      (node.children || []).forEach(removeCounts);
+    };
+    removeCounts(lru.sortedCollection.root);
+    delete lru.capacity;
+    delete lru.totalWeight;
+
+    expect(adapter.set(lru, 11, 11)).toEqual([[1, 1]]);
+    range(12, 30).forEach(i => adapter.set(lru, i, i));
+
+    expect(adapter.getSize(lru)).toBe(10);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(range(21, 30));
+  });
+
+  it('stores the capacity in the cache', () => {
+    const adapter = new LruCacheAdapter<number, number>(10);
+    const lru = adapter.create();
+
+    expect(lru.capacity).toBe(10);
+    expect(adapter.getCapacity(lru)).toBe(10);
+
+    delete lru.capacity;
+    expect(adapter.getCapacity(lru)).toBe(10);
+  });
+
+  it('resizes the cache', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<number, number>(10, { onEvict });
+    const lru = adapter.create();
+
+    range(1, 10).forEach(i => adapter.set(lru, i, i));
+
+    expect(adapter.resize(lru, 5)).toEqual(range(1, 5).map(i => [i, i]));
+    expect(onEvict).toHaveBeenCalledTimes(5);
+    expect(adapter.getCapacity(lru)).toBe(5);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(range(6, 10));
+
+    expect(adapter.resize(lru, 20)).toEqual([]);
+    range(11, 25).forEach(i => adapter.set(lru, i, i));
+    expect(adapter.getSize(lru)).toBe(20);
+  });
+
+  it('evicts the least frequently used items with the lfu policy', () => {
+    const adapter = new LruCacheAdapter<string, string>(3, { strict: true, policy: 'lfu' });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c']]);
+    adapter.get(lru, 'a');
+    adapter.get(lru, 'a');
+    adapter.get(lru, 'b');
+
+    expect(adapter.set(lru, 'd', 'd')).toEqual([['c', 'c']]);
+    expect(lru.age).toBe(1);
+
+    // d was only used once, so it has a lower priority than b.
+    expect(adapter.set(lru, 'e', 'e')).toEqual([['d', 'd']]);
+    expect(Array.from(adapter.getKeysIterable(lru)).sort()).toEqual(['a', 'b', 'e']);
+  });
+
+  it('ages out frequently used items with the lfu policy', () => {
+    const adapter = new LruCacheAdapter<number, number>(2, { strict: true, policy: 'lfu' });
+    const lru = adapter.create();
+
+    adapter.set(lru, 0, 0);
+    range(1, 5).forEach(() => adapter.get(lru, 0));
+
+    range(1, 10).forEach(i => {
+      adapter.set(lru, i, i);
+      adapter.get(lru, i);
+    });
+
+    expect(adapter.has(lru, 0)).toBe(false);
+  });
+
+  it('keeps frequently used items when scanning with the 2q policy', () => {
+    const adapter = new LruCacheAdapter<string, string>(4, { strict: true, policy: '2q' });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [['a', 'a'], ['b', 'b'], ['c', 'c'], ['d', 'd']]);
+    expect(adapter.set(lru, 'e', 'e')).toEqual([['a', 'a']]);
+
+    // a was evicted recently, so it's promoted to the main queue when it's stored again.
+    expect(adapter.set(lru, 'a', 'a2')).toEqual([['b', 'b']]);
+    expect(lru.inSize).toBe(3);
+
+    range(1, 20).forEach(i => adapter.set(lru, `scan ${i}`, 'scan'));
+
+    expect(adapter.get(lru, 'a')).toBe('a2');
+    expect(adapter.getSize(lru)).toBe(4);
+    expect(lru.inSize).toBe(3);
+    expect(adapter.getSize(lru.ghosts as any)).toBeLessThanOrEqual(2);
+  });
+
+  it('evicts from the main queue when the in queue is small with the 2q policy', () => {
+    const adapter = new LruCacheAdapter<string, string>(4, { strict: true, policy: '2q' });
+    const lru = adapter.create();
+
+    ['a', 'b', 'c', 'd', 'e', 'a', 'b', 'c'].forEach(key => adapter.set(lru, key, key));
+
+    // a, b and c were promoted to the main queue, leaving e alone in the in queue.
+    expect(lru.inSize).toBe(1);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['e', 'a', 'b', 'c']);
+
+    expect(adapter.set(lru, 'f', 'f')).toEqual([['e', 'e']]);
+    expect(adapter.set(lru, 'd', 'd')).toEqual([['a', 'a']]);
+
+    adapter.get(lru, 'b');
+    expect(adapter.set(lru, 'e', 'e')).toEqual([['c', 'c']]);
+
+    adapter.remove(lru, 'f');
+    expect(lru.inSize).toBe(0);
+    expect(adapter.set(lru, 'g', 'g')).toEqual([]);
+    expect(lru.inSize).toBe(1);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(['g', 'd', 'b', 'e']);
+  });
+
+  it('tracks stats', () => {
+    let now = 0;
+    const adapter = new LruCacheAdapter<number, number>(2, { strict: true, trackStats: true, ttl: 100, now: () => now });
+    const lru = adapter.create();
+
+    expect(adapter.getStats(lru)).toEqual({ hits: 0, misses: 0, evictions: 0, insertions: 0, hitRatio: 0 });
+
+    adapter.set(lru, 1, 1);
+    adapter.setMany(lru, [[1, 10], [2, 2], [3, 3]]);
+    adapter.get(lru, 2);
+    adapter.get(lru, 3);
+    adapter.get(lru, 1);
+    adapter.peek(lru, 1);
+
+    now = 100;
+    adapter.get(lru, 3);
+    adapter.purgeExpired(lru);
+
+    expect(adapter.getStats(lru)).toEqual({ hits: 2, misses: 2, evictions: 3, insertions: 3, hitRatio: 0.5 });
+
+    adapter.resetStats(lru);
+    expect(adapter.getStats(lru)).toEqual({ hits: 0, misses: 0, evictions: 0, insertions: 0, hitRatio: 0 });
+  });
+
+  it('does not track stats by default', () => {
+    const adapter = new LruCacheAdapter<number, number>(2);
+    const lru = adapter.create();
+
+    adapter.set(lru, 1, 1);
+    adapter.get(lru, 1);
+    adapter.resetStats(lru);
+
+    expect(lru.stats).toBeUndefined();
+    expect(adapter.getStats(lru)).toBeUndefined();
+  });
+
+  it('tracks stats for caches created without them', () => {
+    const lru = new LruCacheAdapter<number, number>(2).create();
+    const adapter = new LruCacheAdapter<number, number>(2, { trackStats: true });
+
+    adapter.set(lru, 1, 1);
+    adapter.get(lru, 1);
+
+    expect(adapter.getStats(lru)).toEqual({ hits: 1, misses: 0, evictions: 0, insertions: 1, hitRatio: 1 });
+  });
+
+  it('tracks stats in drafts', () => {
+    const adapter = new LruCacheAdapter<number, number>(2, { trackStats: true });
+    const lru = adapter.create();
+
+    const next = produce(lru, draft => {
+      adapter.set(draft, 1, 1);
+      adapter.get(draft, 2);
+    });
+
+    expect(adapter.getStats(lru)).toEqual({ hits: 0, misses: 0, evictions: 0, insertions: 0, hitRatio: 0 });
+    expect(adapter.getStats(next)).toEqual({ hits: 0, misses: 1, evictions: 0, insertions: 1, hitRatio: 0 });
+  });
+
+  it('does not evict pinned items', () => {
+    const adapter = new LruCacheAdapter<number, number>(3, { strict: true });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [[1, 1], [2, 2], [3, 3]]);
+    expect(adapter.pin(lru, 1)).toBe(true);
+    expect(adapter.pin(lru, 4)).toBe(false);
+    expect(adapter.isPinned(lru, 1)).toBe(true);
+
+    // Pinned items don't count against the capacity.
+    expect(adapter.set(lru, 4, 4)).toEqual([]);
+    expect(adapter.set(lru, 5, 5)).toEqual([[2, 2]]);
+    adapter.set(lru, 1, 10);
+    expect(adapter.setMany(lru, range(6, 10).map(i => [i, i] as [number, number])).removed).toBe(5);
+
+    expect(adapter.isPinned(lru, 1)).toBe(true);
+    expect(Array.from(adapter.getIterable(lru))).toEqual([[1, 10], [8, 8], [9, 9], [10, 10]]);
+
+    // The cache is over its capacity once the item is unpinned, so it's evicted straight away.
+    expect(adapter.unpin(lru, 1)).toBe(true);
+    expect(adapter.isPinned(lru, 1)).toBe(false);
+    expect(Array.from(adapter.getIterable(lru))).toEqual([[8, 8], [9, 9], [10, 10]]);
+    expect(adapter.trim(lru)).toEqual([]);
+    expect(lru.pinnedCount).toBe(0);
+  });
+
+  it('never exceeds the capacity in strict mode after unpinning items', () => {
+    const onEvict = jest.fn();
+    const adapter = new LruCacheAdapter<number, number>(20, { strict: true, policy: '2q', onEvict });
+    const lru = adapter.create();
+
+    range(1, 20).forEach(i => adapter.set(lru, i, i));
+    adapter.pin(lru, 5);
+    adapter.set(lru, 21, 21);
+    expect(adapter.getSize(lru)).toBe(21);
+    expect(onEvict).not.toHaveBeenCalled();
+
+    adapter.unpin(lru, 5);
+    expect(adapter.getSize(lru)).toBe(20);
+    expect(onEvict).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts pinned items against the capacity when configured to', () => {
+    const adapter = new LruCacheAdapter<number, number>(3, { strict: true, pinnedCountTowardsCapacity: true });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [[1, 1], [2, 2], [3, 3]]);
+    adapter.pin(lru, 1);
+    adapter.pin(lru, 2);
+
+    expect(adapter.set(lru, 4, 4)).toEqual([[3, 3]]);
+    expect(adapter.set(lru, 5, 5)).toEqual([[4, 4]]);
+
+    adapter.pin(lru, 5);
+    expect(adapter.set(lru, 6, 6)).toEqual([[6, 6]]);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual([1, 2, 5]);
+  });
+
+  it('does not expire pinned items', () => {
+    let now = 0;
+    const adapter = new LruCacheAdapter<number, number>(3, { ttl: 10, now: () => now });
+    const lru = adapter.create();
+
+    adapter.setMany(lru, [[1, 1], [2, 2]]);
+    adapter.pin(lru, 1);
+
+    now = 10;
+    expect(adapter.pin(lru, 2)).toBe(false);
+    expect(adapter.purgeExpired(lru)).toEqual([[2, 2]]);
+    expect(adapter.get(lru, 1)).toBe(1);
+
+    adapter.unpin(lru, 1);
+    expect(adapter.has(lru, 1)).toBe(false);
+  });
+
+  it('skips pinned items with other policies', () => {
+    const lfuAdapter = new LruCacheAdapter<number, number>(2, { strict: true, policy: 'lfu' });
+    const lfu = lfuAdapter.create();
+
+    lfuAdapter.setMany(lfu, [[1, 1], [2, 2]]);
+    lfuAdapter.pin(lfu, 1);
+    lfuAdapter.get(lfu, 2);
+    lfuAdapter.get(lfu, 2);
+
+    expect(lfuAdapter.setMany(lfu, [[3, 3], [4, 4]]).removed).toBe(1);
+    expect(Array.from(lfuAdapter.getKeysIterable(lfu)).sort()).toEqual([1, 2, 4]);
+
+    const twoQAdapter = new LruCacheAdapter<number, number>(4, { strict: true, policy: '2q' });
+    const twoQ = twoQAdapter.create();
+
+    twoQAdapter.setMany(twoQ, [[1, 1], [2, 2], [3, 3], [4, 4]]);
+    twoQAdapter.pin(twoQ, 1);
+    twoQAdapter.pin(twoQ, 2);
+
+    expect(twoQAdapter.set(twoQ, 5, 5)).toEqual([]);
+    expect(twoQAdapter.set(twoQ, 6, 6)).toEqual([]);
+    expect(twoQAdapter.set(twoQ, 7, 7)).toEqual([[3, 3]]);
+    expect(Array.from(twoQAdapter.getKeysIterable(twoQ))).toEqual([1, 2, 4, 5, 6, 7]);
+  });
+
+  it('compacts orders', () => {
+    const adapter = new LruCacheAdapter<number, number>(5, { strict: true, orderCompactionThreshold: 20 });
+    const lru = adapter.create();
+
+    range(1, 8).forEach(i => adapter.set(lru, i, i));
+    range(1, 10).forEach(() => adapter.get(lru, 5));
+    expect(lru.nextOrder).toBe(18);
+
+    // The orders are renumbered once nextOrder reaches the threshold.
+    adapter.get(lru, 4);
+    adapter.get(lru, 6);
+    expect(lru.nextOrder).toBe(5);
+
+    expect(adapter.get(lru, 8)).toBe(8);
+    expect(lru.nextOrder).toBe(6);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual([7, 5, 4, 6, 8]);
+
+    adapter.set(lru, 9, 9);
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual([5, 4, 6, 8, 9]);
+  });
+
+  it('compacts orders in drafts', () => {
+    const adapter = new LruCacheAdapter<number, number>(100, { orderCompactionThreshold: 500 });
+    const lru = adapter.create();
+
+    range(1, 100).forEach(i => adapter.set(lru, i, i));
+
+    const next = produce(lru, draft => {
+      range(1, 400).forEach(i => adapter.get(draft, 100 - (i % 100)));
+    });
+
+    expect(lru.nextOrder).toBe(100);
+    expect(next.nextOrder).toBeLessThan(200);
+    expect(Array.from(adapter.getKeysIterable(next))).toEqual(range(1, 99).reverse().concat(100));
+    expect(Array.from(adapter.getKeysIterable(lru))).toEqual(range(1, 100));
+  });
+
+  it('compacts orders with other policies', () => {
+    const lfuAdapter = new LruCacheAdapter<number, number>(4, { strict: true, policy: 'lfu', orderCompactionThreshold: 10 });
+    const lfu = lfuAdapter.create();
+
+    lfuAdapter.setMany(lfu, [[1, 1], [2, 2], [3, 3], [4, 4]]);
+    range(1, 5).forEach(() => lfuAdapter.get(lfu, 1));
+    lfuAdapter.get(lfu, 3);
+    lfuAdapter.get(lfu, 2);
+
+    expect(lfu.nextOrder).toBe(5);
+    expect(lfuAdapter.set(lfu, 5, 5)).toEqual([[4, 4]]);
+    expect(lfuAdapter.set(lfu, 6, 6)).toEqual([[5, 5]]);
+
+    const twoQAdapter = new LruCacheAdapter<number, number>(4, { strict: true, policy: '2q', orderCompactionThreshold: 10 });
+    const twoQ = twoQAdapter.create();
+
+    [1, 2, 3, 4, 5, 1, 2].forEach(key => twoQAdapter.set(twoQ, key, key));
+    range(1, 3).forEach(() => twoQAdapter.get(twoQ, 1));
+
+    expect(twoQ.nextOrder).toBeLessThan(10);
+    expect(Array.from(twoQAdapter.getKeysIterable(twoQ))).toEqual([4, 5, 2, 1]);
+    expect(twoQAdapter.set(twoQ, 3, 3)).toEqual([[4, 4]]);
+    expect(twoQAdapter.set(twoQ, 6, 6)).toEqual([[5, 5]]);
+    expect(Array.from(twoQAdapter.getKeysIterable(twoQ))).toEqual([6, 2, 1, 3]);
+  });
+
+  it('iterates backward', () => {
+    const adapter = new LruCacheAdapter<number, string>(5);
+    const lru = adapter.create();
+
+    range(1, 5).forEach(i => adapter.set(lru, i, `${i}`));
+    adapter.get(lru, 2);
+
+    expect(Array.from(adapter.getIterable(lru, 'backward'))).toEqual([[2, '2'], [5, '5'], [4, '4'], [3, '3'], [1, '1']]);
+    expect(Array.from(adapter.getKeysIterable(lru, 'backward'))).toEqual([2, 5, 4, 3, 1]);
+    expect(Array.from(adapter.getValuesIterable(lru, 'backward'))).toEqual(['2', '5', '4', '3', '1']);
+    expect(Array.from(adapter.getKeysIterable(lru, 'forward'))).toEqual([1, 3, 4, 5, 2]);
+  });
+
+  it('peeks at and pops the oldest and newest items', () => {
+    let now = 0;
+    const adapter = new LruCacheAdapter<number, number>(5, { now: () => now });
+    const lru = adapter.create();
+
+    expect(adapter.peekOldest(lru)).toBeUndefined();
+    expect(adapter.peekNewest(lru)).toBeUndefined();
+    expect(adapter.popOldest(lru)).toBeUndefined();
+
+    adapter.set(lru, 1, 1, { ttl: 10 });
+    range(2, 4).forEach(i => adapter.set(lru, i, i));
+    adapter.set(lru, 5, 5, { ttl: 10 });
+
+    expect(adapter.peekOldest(lru)).toEqual([1, 1]);
+    expect(adapter.peekNewest(lru)).toEqual([5, 5]);
+
+    // Peeking doesn't affect how recently the items were used.
+    expect(adapter.peekOldest(lru)).toEqual([1, 1]);
+
+    now = 10;
+    expect(adapter.peekOldest(lru)).toEqual([2, 2]);
+    expect(adapter.peekNewest(lru)).toEqual([4, 4]);
+
+    expect(adapter.popOldest(lru)).toEqual([2, 2]);
+    expect(adapter.popOldest(lru)).toEqual([3, 3]);
+    expect(adapter.has(lru, 2)).toBe(false);
+    expect(adapter.getSize(lru)).toBe(3);
+  });
+
   it('treats gotten items as more recent', () => {
     const adapter = new LruCacheAdapter<string, string>(4);
     const lru = adapter.create();
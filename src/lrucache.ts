@@ -1,72 +1,396 @@
 import {ISortedMap, Key, SortedMapAdapter} from './sortedmap';
-import {iterableToIterableIterator, mapIterable} from './util';
+import {BatchSummary, createBatchSummary, iterableToIterableIterator, mapIterable} from './util';
+
+/**
+ * The way a cache chooses which entries to evict:
+ * lru: Evicts the least recently used entries.
+ * lfu: Evicts the least frequently used entries. Frequencies decay over time (entries used long ago gradually lose
+ *      out to entries used recently), so entries which were popular once don't stay in the cache forever.
+ * 2q: A scan resistant policy (2Q). New entries are kept in a separate queue, so that entries which are only used once
+ *     (for instance, while paging through search results) don't flush out entries which are used repeatedly.
+ */
+export type EvictionPolicy = 'lru' | 'lfu' | '2q';
+
+/** Counts of the ways a cache has been used, when the adapter tracks stats. */
+export interface LruCacheStats {
+  /** The # of calls to get which found an entry. */
+  hits: number;
+  /** The # of calls to get which didn't find an entry (or found an expired one). */
+  misses: number;
+  /** The # of entries removed to make room for others, or because they expired. */
+  evictions: number;
+  /** The # of entries stored for keys which weren't in the cache. */
+  insertions: number;
+}
 
 export interface ILruCache<K, V> extends ISortedMap<K, LruWrapper<V>> {
   nextOrder: number;
+  /** The total weight of the entries, when the adapter has a weigher. Missing in caches created by older versions. */
+  totalWeight?: number;
+  /** The max suggested # of entries. Caches created by older versions use the adapter's suggestedSize instead. */
+  capacity?: number;
+  /** (lfu) The priority of the most recently evicted entry, which is added to the priority of entries as they're used. */
+  age?: number;
+  /** (2q) The number of entries which haven't been promoted to the main queue. */
+  inSize?: number;
+  /** (2q) Keys which were recently evicted without being promoted. Storing one of these keys again promotes it. */
+  ghosts?: ISortedMap<K, number>;
+  /** Only present when the adapter tracks stats. */
+  stats?: LruCacheStats;
+  /** The # of pinned entries. */
+  pinnedCount?: number;
 }
 
 interface LruWrapper<V> {
   value: V;
   order: number;
+  /** The time at which the entry expires, if it was stored with a time-to-live. */
+  expiresAt?: number;
+  /** The weight of the entry, when the adapter has a weigher. */
+  weight?: number;
+  /** (lfu) The number of times the entry has been used. */
+  frequency?: number;
+  /** (lfu) The age of the cache when the entry was last used plus its frequency. The lowest priority is evicted first. */
+  priority?: number;
+  /** (2q) Set once the entry has been promoted to the main queue. */
+  main?: boolean;
+  /** Set while the entry is pinned, so it's never evicted. */
+  pinned?: boolean;
 }
 
+type LruOrder = number | [number, number];
+
+/** (2q) The share of the capacity for entries which haven't been promoted to the main queue. */
+const IN_QUEUE_SHARE = 0.25;
+/** (2q) The number of recently evicted keys to remember, as a share of the capacity. */
+const GHOST_SHARE = 0.5;
+/** Well below Number.MAX_SAFE_INTEGER (2^53 - 1), so orders never lose precision. */
+const DEFAULT_ORDER_COMPACTION_THRESHOLD = Math.pow(2, 48);
+
 export class LruCacheAdapter<K extends Key, V> {
-  private sortedMapAdapter = new SortedMapAdapter<K, LruWrapper<V>, number>({
-    getOrderingKey: (item) => item.order
+  private sortedMapAdapter: SortedMapAdapter<K, LruWrapper<V>, LruOrder>;
+  private ghostsAdapter = new SortedMapAdapter<K, number, number>({
+    getOrderingKey: (order) => order
   });
 
+  private ttl: number|undefined;
+  private now: () => number;
+  private weigher: ((key: K, value: V) => number)|undefined;
+  private maxWeight: number|undefined;
+  private slack: number;
+  private onEvict: ((key: K, value: V) => void)|undefined;
+  private policy: EvictionPolicy;
+  private trackStats: boolean;
+  private pinnedCountTowardsCapacity: boolean;
+  private orderCompactionThreshold: number;
+
   /**
    * Create a new LRU Cache adapter.
    * @param suggestedSize The max suggested # of entries for the LRU Cache to store. Up to 10% more than the provided
-   *                      number may be stored.
+   *                      number may be stored (see options.slack). This is the initial capacity of caches created by
+   *                      the adapter, which is stored in the cache and may be changed using resize.
+   * @param options.ttl The default time-to-live of entries, in milliseconds. Optional (by default entries don't expire).
+   * @param options.now A function which returns the current time in milliseconds. Optional (by default uses Date.now).
+   * @param options.weigher A function which computes the weight of an entry (such as its approximate size in bytes).
+   *                        Optional (required if maxWeight is set).
+   * @param options.maxWeight The max suggested total weight of the entries. The oldest entries are removed until the
+   *                          total weight is within this limit, so an entry heavier than the limit is removed at once.
+   * @param options.slack The fraction by which the size and total weight may exceed their limits before old entries
+   *                      are removed. With Immer, it's more efficient to do multiple removals at once, so extra entries
+   *                      are stored and then removed all at once. Optional (defaults to 0.1).
+   * @param options.strict Set to true to never let the size or total weight exceed their limits (the slack is ignored).
+   * @param options.onEvict A function which is called for each entry removed to make room for others (or because it
+   *                        expired), for instance to release resources associated with the entry. Optional.
+   * @param options.policy The way entries are chosen for eviction (see EvictionPolicy). Optional (defaults to 'lru').
+   * @param options.trackStats Set to true to count hits, misses, evictions and insertions in the cache (see getStats).
+   *                           Optional (by default the counts aren't stored, to keep the cache small).
+   * @param options.pinnedCountTowardsCapacity Set to true to include pinned entries in the # of entries compared with
+   *                                           the capacity, so they take the place of other entries. Optional (by
+   *                                           default pinned entries are stored in addition to the capacity).
+   * @param options.orderCompactionThreshold The value of nextOrder at which the orders of the entries are renumbered
+   *                                         from 0 (keeping them in the same order), so they stay small enough to be
+   *                                         precise. Optional (defaults to 2^48).
    */
-  constructor(private suggestedSize: number) {}
+  constructor(private suggestedSize: number, options: {
+    ttl?: number,
+    now?: () => number,
+    weigher?: (key: K, value: V) => number,
+    maxWeight?: number,
+    slack?: number,
+    strict?: boolean,
+    onEvict?: (key: K, value: V) => void,
+    policy?: EvictionPolicy,
+    trackStats?: boolean,
+    pinnedCountTowardsCapacity?: boolean,
+    orderCompactionThreshold?: number,
+  } = {}) {
+    if (options.maxWeight !== undefined && options.weigher === undefined) {
+      throw new Error('A weigher must be provided when maxWeight is set');
+    }
+
+    this.ttl = options.ttl;
+    this.now = options.now || (() => Date.now());
+    this.weigher = options.weigher;
+    this.maxWeight = options.maxWeight;
+    this.slack = options.strict ? 0 : options.slack === undefined ? 0.1 : options.slack;
+    this.onEvict = options.onEvict;
+    this.policy = options.policy || 'lru';
+    this.trackStats = !!options.trackStats;
+    this.pinnedCountTowardsCapacity = !!options.pinnedCountTowardsCapacity;
+    this.orderCompactionThreshold = options.orderCompactionThreshold === undefined ?
+      DEFAULT_ORDER_COMPACTION_THRESHOLD :
+      options.orderCompactionThreshold;
+
+    // LRU caches are ordered by their order alone, as they always have been.
+    this.sortedMapAdapter = new SortedMapAdapter<K, LruWrapper<V>, LruOrder>({
+      getOrderingKey: this.policy === 'lfu' ? (item) => [item.priority!, item.order] :
+        this.policy === '2q' ? (item) => [item.main ? 1 : 0, item.order] :
+        (item) => item.order,
+      orderComparer: this.policy === 'lru' ?
+        (a, b) => (a as number) - (b as number) :
+        (a, b) => (a as [number, number])[0] - (b as [number, number])[0] || (a as [number, number])[1] - (b as [number, number])[1],
+    });
+  }
 
   create(): ILruCache<K, V> {
-    return {
+    const lru: ILruCache<K, V> = {
       ...this.sortedMapAdapter.create(),
       nextOrder: 0,
+      totalWeight: 0,
+      capacity: this.suggestedSize,
     };
+
+    if (this.policy === 'lfu') {
+      lru.age = 0;
+    } else if (this.policy === '2q') {
+      lru.inSize = 0;
+      lru.ghosts = this.ghostsAdapter.create();
+    }
+
+    if (this.trackStats) {
+      lru.stats = createStats();
+    }
+
+    return lru;
   }
 
-  set(lru: ILruCache<K, V>, key: K, value: V): void {
-    this.sortedMapAdapter.set(lru, key, { value, order: this.getNextOrder(lru) });
+  /**
+   * Stores the value in the cache as the most recently used entry. Returns the entries which were evicted to make room.
+   * @param options.ttl The time-to-live of the entry, in milliseconds. Optional (by default uses the adapter's ttl).
+   */
+  set(lru: ILruCache<K, V>, key: K, value: V, options: { ttl?: number } = {}): Array<[K, V]> {
+    const existing = this.sortedMapAdapter.get(lru, key);
+    const wrapper = this.createWrapper(lru, key, value, existing, options.ttl);
+    this.adjustTotalWeight(lru, existing, wrapper);
+    this.sortedMapAdapter.set(lru, key, wrapper);
+    if (existing === undefined) this.recordStat(lru, 'insertions');
+
+    const evicted = this.trimIfOverLimit(lru);
+    this.compactOrdersIfNeeded(lru);
 
-    // With Immer, it's more efficient to do multiple removals at once, so we store up to 10% extra entries
-    // and then remove them all at once.
-    if (this.getSize(lru) > this.suggestedSize * 1.1) {
-      const iterable = this.sortedMapAdapter.getIterable(lru)[ Symbol.iterator ]();
+    return evicted;
+  }
 
-      do {
-        const oldestKey = iterable.next().value[0];
+  /**
+   * Stores each of the entries in the cache, as if set were called for each entry in turn (so later entries are more
+   * recently used). Old entries are only removed once all the entries have been stored, so entries from the batch may
+   * themselves be removed if the batch is larger than the cache. The number of entries evicted is reported as removed.
+   */
+  setMany(lru: ILruCache<K, V>, entries: Iterable<[K, V]>): BatchSummary {
+    // Only the last entry for each key matters, and it's the most recently used of the entries at that point.
+    const latestEntries = new Map<K, V>();
+    let entryCount = 0;
 
-        this.sortedMapAdapter.remove(lru, oldestKey);
-      } while (this.getSize(lru) > this.suggestedSize);
+    for (const [key, value] of entries) {
+      latestEntries.delete(key);
+      latestEntries.set(key, value);
+      entryCount++;
     }
+
+    const wrappedEntries: Array<[K, LruWrapper<V>]> = [];
+
+    latestEntries.forEach((value, key) => {
+      const existing = this.sortedMapAdapter.get(lru, key);
+      const wrapper = this.createWrapper(lru, key, value, existing);
+      this.adjustTotalWeight(lru, existing, wrapper);
+      wrappedEntries.push([key, wrapper]);
+      if (existing === undefined) this.recordStat(lru, 'insertions');
+    });
+
+    const summary = this.sortedMapAdapter.setMany(lru, wrappedEntries);
+    summary.updated += entryCount - wrappedEntries.length;
+    summary.removed += this.trimIfOverLimit(lru).length;
+    this.compactOrdersIfNeeded(lru);
+
+    return summary;
   }
 
+  /**
+   * Gets the value and marks it as the most recently used. Expired entries are treated as missing. This is counted as a
+   * hit or a miss when the adapter tracks stats.
+   */
   get(lru: ILruCache<K, V>, key: K): V|undefined {
+    if (this.getLiveWrapper(lru, key) === undefined) {
+      this.recordStat(lru, 'misses');
+      return;
+    }
+
+    this.recordStat(lru, 'hits');
+
     const existing = this.sortedMapAdapter.update(lru, key, (item) => {
-      item.order = this.getNextOrder(lru);
+      this.recordUse(lru, key, item, item);
     }) as LruWrapper<V>|undefined;
 
+    this.compactOrdersIfNeeded(lru);
+
     return existing && existing.value;
   }
 
+  /** Gets the value without affecting how recently it was used. Expired entries are treated as missing. */
   peek(lru: ILruCache<K, V>, key: K): V|undefined {
-    const existing = this.sortedMapAdapter.get(lru, key);
+    const existing = this.getLiveWrapper(lru, key);
 
     return existing && existing.value;
   }
 
+  /** Returns true if the cache holds an entry for the key which hasn't expired. */
   has(lru: ILruCache<K, V>, key: K): boolean {
-    return this.sortedMapAdapter.has(lru, key);
+    return this.getLiveWrapper(lru, key) !== undefined;
+  }
+
+  /**
+   * Removes the entries which have expired, returning them (onEvict is called for each). Note that expired entries are
+   * otherwise only removed when they're evicted, so they're still included in the size of the cache and when iterating
+   * through it.
+   * @param now The current time in milliseconds. Optional (by default uses the adapter's clock).
+   */
+  purgeExpired(lru: ILruCache<K, V>, now = this.now()): Array<[K, V]> {
+    const expired: Array<[K, V]> = [];
+
+    for (const [key, wrapper] of this.sortedMapAdapter.getIterable(lru)) {
+      if (this.isExpired(wrapper, now)) expired.push([key, wrapper.value]);
+    }
+
+    return this.evict(lru, expired);
   }
 
-  getIterable(lru: ILruCache<K, V>): Iterable<[K, V]> {
+  /**
+   * Removes entries (chosen by the eviction policy) until the size and total weight of the cache are within their
+   * limits (ignoring the slack), returning the evicted entries. This is done automatically once the limits plus slack
+   * are exceeded.
+   */
+  trim(lru: ILruCache<K, V>): Array<[K, V]> {
+    const capacity = this.getCapacity(lru);
+    const maxWeight = this.maxWeight === undefined ? Infinity : this.maxWeight;
+    const totalSize = this.getSize(lru);
+    let size = this.getEvictableSize(lru);
+    let weight = lru.totalWeight || 0;
+
+    // Entries which haven't been promoted come first in 2Q caches. They're evicted while there are more of them than
+    // their share of the capacity, and otherwise the entries in the main queue are evicted.
+    const totalInSize = this.policy === '2q' ? lru.inSize || 0 : 0;
+    const inShare = Math.max(1, Math.floor(capacity * IN_QUEUE_SHARE));
+    let inSize = totalInSize;
+    let inIndex = 0;
+    let mainIndex = totalInSize;
+    const victims: Array<[K, LruWrapper<V>]> = [];
+
+    // The entries to remove are found first, so the cache isn't modified while they're being looked up. Pinned entries
+    // are skipped, so there may be no entries left to remove.
+    while ((size > capacity || weight > maxWeight) && (inIndex < totalInSize || mainIndex < totalSize)) {
+      const fromInQueue = inIndex < totalInSize && (inSize > inShare || mainIndex >= totalSize);
+      const victim = this.sortedMapAdapter.getEntryAt(lru, fromInQueue ? inIndex++ : mainIndex++)!;
+
+      if (victim[1].pinned) continue;
+      if (fromInQueue) inSize--;
+      victims.push(victim);
+      size--;
+      weight -= victim[1].weight || 0;
+    }
+
+    if (victims.length === 0) return [];
+
+    if (this.policy === 'lfu') {
+      // Entries are used in order of priority, so the last one has the highest.
+      lru.age = victims[victims.length - 1][1].priority;
+    } else if (this.policy === '2q') {
+      this.addGhosts(lru, victims.filter(victim => !victim[1].main).map(victim => victim[0]));
+    }
+
+    const evicted = this.evict(lru, victims.map(([key, wrapper]) => [key, wrapper.value] as [K, V]));
+    this.compactOrdersIfNeeded(lru);
+
+    return evicted;
+  }
+
+  /**
+   * Gets a copy of the stats of the cache, along with the share of calls to get which were hits (0 if there weren't
+   * any calls). Returns undefined if the adapter doesn't track stats.
+   */
+  getStats(lru: ILruCache<K, V>): LruCacheStats & { hitRatio: number }|undefined {
+    if (!this.trackStats) return;
+
+    const stats = lru.stats || createStats();
+    const lookups = stats.hits + stats.misses;
+
+    return { ...stats, hitRatio: lookups === 0 ? 0 : stats.hits / lookups };
+  }
+
+  /** Sets each of the stats of the cache back to 0, if the adapter tracks stats. */
+  resetStats(lru: ILruCache<K, V>): void {
+    if (!this.trackStats) return;
+
+    lru.stats = createStats();
+  }
+
+  /**
+   * Pins the entry, so it's never evicted (or expires) until it's unpinned. Pinned entries are still removed by remove
+   * and removeMany, and stay pinned when they're set. Their weight counts towards maxWeight, so other entries are
+   * evicted to make room for them. Returns false if there's no entry for the key (or it has expired).
+   */
+  pin(lru: ILruCache<K, V>, key: K): boolean {
+    return this.setPinned(lru, key, true);
+  }
+
+  /**
+   * Unpins the entry, so it may be evicted again. Its recency is unchanged, so if the cache is now over its limits, it
+   * may be evicted straight away (along with other entries), in which case it's passed to onEvict. Returns false if
+   * there's no entry for the key (or it has expired).
+   */
+  unpin(lru: ILruCache<K, V>, key: K): boolean {
+    return this.setPinned(lru, key, false);
+  }
+
+  /** Returns true if the entry for the key is pinned. */
+  isPinned(lru: ILruCache<K, V>, key: K): boolean {
+    const existing = this.sortedMapAdapter.get(lru, key);
+
+    return existing !== undefined && !!existing.pinned;
+  }
+
+  /** Gets the max suggested # of entries for the cache. */
+  getCapacity(lru: ILruCache<K, V>): number {
+    return lru.capacity === undefined ? this.suggestedSize : lru.capacity;
+  }
+
+  /**
+   * Changes the max suggested # of entries for the cache. If the cache holds more entries than the new capacity, the
+   * oldest entries are evicted immediately (and returned).
+   */
+  resize(lru: ILruCache<K, V>, capacity: number): Array<[K, V]> {
+    lru.capacity = capacity;
+
+    return this.trim(lru);
+  }
+
+  /**
+   * Iterates through the entries in the order they would be evicted (for lru, least recently used first), or the reverse
+   * order if the direction is 'backward' (most recently used first).
+   */
+  getIterable(lru: ILruCache<K, V>, direction: 'forward'|'backward' = 'forward'): Iterable<[K, V]> {
     return {
       [Symbol.iterator]: () => {
-        const sortedIterable = this.sortedMapAdapter.getIterable(lru)[Symbol.iterator]();
+        const sortedIterable = this.sortedMapAdapter.getIterable(lru, direction)[Symbol.iterator]();
 
         return {
           next: () => {
@@ -83,15 +407,49 @@ export class LruCacheAdapter<K extends Key, V> {
     };
   }
 
-  getValuesIterable(lru: ILruCache<K, V>): Iterable<V> {
-    return mapIterable(this.getIterable(lru), (entry) => entry[1]);
+  getValuesIterable(lru: ILruCache<K, V>, direction: 'forward'|'backward' = 'forward'): Iterable<V> {
+    return mapIterable(this.getIterable(lru, direction), (entry) => entry[1]);
+  }
+
+  getKeysIterable(lru: ILruCache<K, V>, direction: 'forward'|'backward' = 'forward'): Iterable<K> {
+    return mapIterable(this.getIterable(lru, direction), (entry) => entry[0]);
+  }
+
+  /**
+   * Gets the entry which would be evicted first (for lru, the least recently used) without affecting how recently it
+   * was used. Expired entries are skipped.
+   */
+  peekOldest(lru: ILruCache<K, V>): [K, V]|undefined {
+    return this.peekLiveEntry(lru, 'forward');
+  }
+
+  /**
+   * Gets the entry which would be evicted last (for lru, the most recently used) without affecting how recently it was
+   * used. Expired entries are skipped.
+   */
+  peekNewest(lru: ILruCache<K, V>): [K, V]|undefined {
+    return this.peekLiveEntry(lru, 'backward');
   }
 
-  getKeysIterable(lru: ILruCache<K, V>): Iterable<K> {
-    return mapIterable(this.getIterable(lru), (entry) => entry[0]);
+  /**
+   * Removes the entry which would be evicted first (for lru, the least recently used) and returns it. Expired entries
+   * are skipped (and left in the cache). This is a removal rather than an eviction, so onEvict isn't called.
+   */
+  popOldest(lru: ILruCache<K, V>): [K, V]|undefined {
+    const oldest = this.peekOldest(lru);
+    if (oldest !== undefined) this.remove(lru, oldest[0]);
+
+    return oldest;
   }
 
+  /**
+   * Updates the value using an updater function, which may mutate the value or return a new one, and makes it the most
+   * recently used entry. Returns the updated value (like the other adapters), so if the update makes the cache too
+   * heavy, the entries evicted to make room are passed to onEvict instead.
+   */
   update(lru: ILruCache<K, V>, key: K, updater: (item: V) => V|void): V|undefined {
+    if (this.getLiveWrapper(lru, key) === undefined) return;
+
     const updated = this.sortedMapAdapter.update(lru, key, (item) => {
       const updated = updater(item.value);
 
@@ -99,18 +457,69 @@ export class LruCacheAdapter<K extends Key, V> {
         item.value = updated;
       }
 
-      item.order = this.getNextOrder(lru);
+      this.recordUse(lru, key, item, item);
+      this.reweigh(lru, key, item);
     }) as LruWrapper<V>|undefined;
 
+    this.trimIfOverLimit(lru);
+    this.compactOrdersIfNeeded(lru);
+
     return updated && updated.value;
   }
 
+  /**
+   * Updates the value of each of the keys using an updater function, which also receives the key. Each updated key
+   * becomes the most recently used in turn. Keys which don't exist (or have expired) are ignored. If the updates make
+   * the cache too heavy, the number of entries evicted is reported as removed.
+   */
+  updateMany(lru: ILruCache<K, V>, keys: Iterable<K>, updater: (item: V, key: K) => V|void): BatchSummary {
+    const liveKeys: K[] = [];
+    // The uses are recorded in the order of the keys up front, as the sorted map doesn't call the updater in that order.
+    const uses = new Map<K, LruWrapper<V>>();
+
+    for (const key of keys) {
+      const existing = uses.get(key) || this.getLiveWrapper(lru, key);
+      if (existing === undefined) continue;
+
+      const use = { ...existing };
+      this.recordUse(lru, key, use, existing);
+      uses.set(key, use);
+      liveKeys.push(key);
+    }
+
+    const summary = this.sortedMapAdapter.updateMany(lru, liveKeys, (item, key) => {
+      const updated = updater(item.value, key);
+
+      if (updated) {
+        item.value = updated;
+      }
+
+      const use = uses.get(key)!;
+      item.order = use.order;
+      if (use.frequency !== undefined) item.frequency = use.frequency;
+      if (use.priority !== undefined) item.priority = use.priority;
+      if (use.main !== undefined) item.main = use.main;
+
+      this.reweigh(lru, key, item);
+    });
+
+    summary.removed += this.trimIfOverLimit(lru).length;
+    this.compactOrdersIfNeeded(lru);
+
+    return summary;
+  }
+
   getSize(lru: ILruCache<K, V>): number {
     return this.sortedMapAdapter.getSize(lru);
   }
 
   remove(lru: ILruCache<K, V>, key: K): void {
-    return this.sortedMapAdapter.remove(lru, key);
+    this.removeKeys(lru, [key]);
+  }
+
+  /** Removes each of the keys from the cache. Keys which don't exist are ignored. */
+  removeMany(lru: ILruCache<K, V>, keys: Iterable<K>): BatchSummary {
+    return this.removeKeys(lru, Array.from(keys));
   }
 
   asReadonlyMap(lru: ILruCache<K, V>): ReadonlyMap<K, V> {
@@ -156,7 +565,203 @@ export class LruCacheAdapter<K extends Key, V> {
     return readonlySet;
   }
 
+  // Trims the cache once the size or total weight exceeds its limit plus slack.
+  private trimIfOverLimit(lru: ILruCache<K, V>): Array<[K, V]> {
+    const maxWeight = this.maxWeight === undefined ? Infinity : this.maxWeight;
+
+    if (this.getEvictableSize(lru) <= this.getCapacity(lru) * (1 + this.slack) && (lru.totalWeight || 0) <= maxWeight * (1 + this.slack)) {
+      return [];
+    }
+
+    return this.trim(lru);
+  }
+
+  private evict(lru: ILruCache<K, V>, entries: Array<[K, V]>): Array<[K, V]> {
+    this.removeKeys(lru, entries.map(entry => entry[0]));
+    this.recordStat(lru, 'evictions', entries.length);
+
+    if (this.onEvict) {
+      for (const [key, value] of entries) {
+        this.onEvict(key, value);
+      }
+    }
+
+    return entries;
+  }
+
+  private removeKeys(lru: ILruCache<K, V>, keys: K[]): BatchSummary {
+    const summary = createBatchSummary();
+
+    for (const key of keys) {
+      const existing = this.sortedMapAdapter.get(lru, key);
+      if (existing === undefined) continue;
+
+      this.adjustTotalWeight(lru, existing, undefined);
+      if (this.policy === '2q' && !existing.main) lru.inSize!--;
+      if (existing.pinned) lru.pinnedCount!--;
+      this.sortedMapAdapter.remove(lru, key);
+      summary.removed++;
+    }
+
+    return summary;
+  }
+
+  private createWrapper(lru: ILruCache<K, V>, key: K, value: V, existing: LruWrapper<V>|undefined, ttl = this.ttl): LruWrapper<V> {
+    const wrapper: LruWrapper<V> = { value, order: 0 };
+    if (existing && existing.pinned) wrapper.pinned = true;
+    this.recordUse(lru, key, wrapper, existing);
+    if (ttl !== undefined) wrapper.expiresAt = this.now() + ttl;
+    if (this.weigher) wrapper.weight = this.weigher(key, value);
+
+    return wrapper;
+  }
+
+  // Updates the wrapper's position in the eviction order for a use of the entry. The previous wrapper is undefined if
+  // the entry is new, and may be the wrapper itself.
+  private recordUse(lru: ILruCache<K, V>, key: K, wrapper: LruWrapper<V>, previous: LruWrapper<V>|undefined) {
+    if (this.policy === 'lfu') {
+      wrapper.frequency = (previous ? previous.frequency || 0 : 0) + 1;
+      wrapper.priority = (lru.age || 0) + wrapper.frequency;
+      wrapper.order = this.getNextOrder(lru);
+    } else if (this.policy === '2q') {
+      if (previous === undefined) {
+        // New entries join the end of the in queue, unless they were evicted from it recently.
+        if (lru.ghosts && this.ghostsAdapter.has(lru.ghosts, key)) {
+          this.ghostsAdapter.remove(lru.ghosts, key);
+          wrapper.main = true;
+        } else {
+          lru.inSize = (lru.inSize || 0) + 1;
+        }
+
+        wrapper.order = this.getNextOrder(lru);
+      } else if (previous.main) {
+        wrapper.main = true;
+        wrapper.order = this.getNextOrder(lru);
+      } else {
+        // The in queue is first in, first out, so using its entries doesn't move them.
+        wrapper.order = previous.order;
+      }
+    } else {
+      wrapper.order = this.getNextOrder(lru);
+    }
+  }
+
+  private addGhosts(lru: ILruCache<K, V>, keys: K[]) {
+    if (lru.ghosts === undefined) lru.ghosts = this.ghostsAdapter.create();
+
+    for (const key of keys) {
+      this.ghostsAdapter.set(lru.ghosts, key, this.getNextOrder(lru));
+    }
+
+    const ghostShare = Math.max(1, Math.floor(this.getCapacity(lru) * GHOST_SHARE));
+
+    while (this.ghostsAdapter.getSize(lru.ghosts) > ghostShare) {
+      this.ghostsAdapter.remove(lru.ghosts, this.ghostsAdapter.getEntryAt(lru.ghosts, 0)![0]);
+    }
+  }
+
+  private setPinned(lru: ILruCache<K, V>, key: K, pinned: boolean): boolean {
+    const existing = this.getLiveWrapper(lru, key);
+    if (existing === undefined) return false;
+
+    if (!!existing.pinned !== pinned) {
+      this.sortedMapAdapter.update(lru, key, (item) => {
+        if (pinned) {
+          item.pinned = true;
+        } else {
+          delete item.pinned;
+        }
+      });
+
+      lru.pinnedCount = (lru.pinnedCount || 0) + (pinned ? 1 : -1);
+
+      // The entry counts towards the capacity again once it's unpinned (unless pinned entries always do).
+      if (!pinned) this.trimIfOverLimit(lru);
+    }
+
+    return true;
+  }
+
+  // Gets the # of entries compared with the capacity.
+  private getEvictableSize(lru: ILruCache<K, V>): number {
+    const size = this.getSize(lru);
+
+    return this.pinnedCountTowardsCapacity ? size : size - (lru.pinnedCount || 0);
+  }
+
+  private recordStat(lru: ILruCache<K, V>, stat: keyof LruCacheStats, count = 1) {
+    if (!this.trackStats || count === 0) return;
+
+    // Caches created before stats were tracked start counting from their first use.
+    if (lru.stats === undefined) lru.stats = createStats();
+    lru.stats[stat] += count;
+  }
+
+  private reweigh(lru: ILruCache<K, V>, key: K, wrapper: LruWrapper<V>) {
+    if (!this.weigher) return;
+
+    const weight = this.weigher(key, wrapper.value);
+    lru.totalWeight = (lru.totalWeight || 0) + weight - (wrapper.weight || 0);
+    wrapper.weight = weight;
+  }
+
+  private adjustTotalWeight(lru: ILruCache<K, V>, previous: LruWrapper<V>|undefined, next: LruWrapper<V>|undefined) {
+    const previousWeight = (previous && previous.weight) || 0;
+    const nextWeight = (next && next.weight) || 0;
+
+    if (previousWeight !== nextWeight) {
+      lru.totalWeight = (lru.totalWeight || 0) + nextWeight - previousWeight;
+    }
+  }
+
+  private peekLiveEntry(lru: ILruCache<K, V>, direction: 'forward'|'backward'): [K, V]|undefined {
+    const now = this.now();
+
+    for (const [key, wrapper] of this.sortedMapAdapter.getIterable(lru, direction)) {
+      if (!this.isExpired(wrapper, now)) return [key, wrapper.value];
+    }
+
+    return;
+  }
+
+  private getLiveWrapper(lru: ILruCache<K, V>, key: K): LruWrapper<V>|undefined {
+    const existing = this.sortedMapAdapter.get(lru, key);
+
+    return existing === undefined || this.isExpired(existing, this.now()) ? undefined : existing;
+  }
+
+  private isExpired(wrapper: LruWrapper<V>, now: number): boolean {
+    return wrapper.expiresAt !== undefined && wrapper.expiresAt <= now && !wrapper.pinned;
+  }
+
+  // Renumbers the orders of the entries (and ghosts) from 0 once nextOrder reaches the threshold. The entries are
+  // renumbered in their eviction order, in a single pass through the cache. Each entry's order only needs to keep its
+  // place among the entries with the same priority (lfu) or in the same queue (2q), which renumbering in eviction
+  // order does. Compaction is also held off until nextOrder is twice the # of orders in use, so it happens at most once
+  // every so many uses of the cache, whatever the threshold.
+  private compactOrdersIfNeeded(lru: ILruCache<K, V>) {
+    const size = this.getSize(lru);
+    const ghostsSize = lru.ghosts ? this.ghostsAdapter.getSize(lru.ghosts) : 0;
+
+    if (lru.nextOrder < this.orderCompactionThreshold || lru.nextOrder < 2 * (size + ghostsSize)) return;
+
+    this.sortedMapAdapter.updateAllInOrder(lru, (wrapper, key, index) => {
+      if (wrapper.order !== index) wrapper.order = index;
+    });
+
+    // Ghosts are only compared with each other, so they're numbered after the entries.
+    if (lru.ghosts) {
+      this.ghostsAdapter.updateAllInOrder(lru.ghosts, (order, key, index) => size + index);
+    }
+
+    lru.nextOrder = size + ghostsSize;
+  }
+
   private getNextOrder(lru: ILruCache<K, V>): number {
     return lru.nextOrder++;
   }
 }
+
+function createStats(): LruCacheStats {
+  return { hits: 0, misses: 0, evictions: 0, insertions: 0 };
+}
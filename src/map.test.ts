@@ -1,5 +1,6 @@
+import produce from 'immer';
 import * as hash from './hash';
-import {Key, MapAdapter} from './map';
+import {ILegacyMap, Key, MapAdapter} from './map';
 
 //TODO: size doesn't decrease when removing non-existent item
 
@@ -137,6 +138,79 @@ describe('map', () => {
     expect(map.size).toBe(0);
   });
 
+  it('collapses the trie when removing items', () => {
+    const adapter = new MapAdapter<number, number>();
+    const map = adapter.create();
+    const expected = adapter.create();
+
+    for (let i = 0; i < 500; i++) {
+      adapter.set(map, i, i);
+      if (i % 3 === 0) adapter.set(expected, i, i);
+    }
+
+    for (let i = 0; i < 500; i++) {
+      if (i % 3 !== 0) adapter.remove(map, i);
+    }
+
+    expect(map).toEqual(expected);
+
+    for (let i = 0; i < 500; i += 3) {
+      adapter.remove(map, i);
+    }
+
+    expect(map).toEqual(adapter.create());
+  });
+
+  it('collapses the trie when removing items at the max depth', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      protected maxDepth = 3;
+    }
+
+    const adapter = new TestAdapter<number, number>();
+    const map = adapter.create();
+    const expected = adapter.create();
+
+    for (let i = 0; i < 1000; i++) {
+      adapter.set(map, i, i);
+      if (i % 7 === 0) adapter.set(expected, i, i);
+    }
+
+    for (let i = 0; i < 1000; i++) {
+      if (i % 7 !== 0) adapter.remove(map, i);
+    }
+
+    expect(map).toEqual(expected);
+  });
+
+  it('collapses the trie when removing items sharing the same hash code', () => {
+    const adapter = new MapAdapter();
+    const map = adapter.create();
+    jest.spyOn(hash, 'hash').mockImplementation(() => {
+      return 987654321;
+    });
+
+    adapter.set(map, 0, 'zero');
+    adapter.set(map, 1, 'one');
+    adapter.remove(map, 1);
+
+    const expected = adapter.create();
+    adapter.set(expected, 0, 'zero');
+
+    expect(map).toEqual(expected);
+    expect(adapter.get(map, 0)).toBe('zero');
+  });
+
+  it('does not remove a different key stored in the same slot', () => {
+    const adapter = new MapAdapter<number, string>();
+    const map = adapter.create();
+
+    adapter.set(map, 1, 'one');
+    adapter.remove(map, 17);
+
+    expect(adapter.get(map, 1)).toBe('one');
+    expect(map.size).toBe(1);
+  });
+
   it('removes a non-existent item', () => {
     const adapter = new MapAdapter();
     const map = adapter.create();
@@ -216,6 +290,391 @@ describe('map', () => {
     expect(adapter.get(map, '0')).toEqual('0_updated');
   });
 
+  it('creates a map from entries', () => {
+    const adapter = new MapAdapter<number, string>();
+    const map = adapter.createFrom(range(1, 20).map(i => [i, `data ${i}`] as [number, string]).concat([[1, 'updated']]));
+
+    expect(adapter.getSize(map)).toBe(20);
+    expect(adapter.get(map, 1)).toBe('updated');
+    expect(adapter.get(map, 20)).toBe('data 20');
+  });
+
+  it('builds the same trie from entries as setting them one at a time', () => {
+    const adapter = new MapAdapter<number, string>();
+    const entries = range(1, 1000).map(i => [i, `data ${i}`] as [number, string]);
+    const expected = adapter.create();
+    entries.forEach(([key, value]) => adapter.set(expected, key, value));
+
+    expect(adapter.createFrom(entries)).toEqual(expected);
+    expect(adapter.createFrom([[1, 'one'], [2, 'two'], [18, 'eighteen']]).root).toEqual({
+      bitmap: 0b110,
+      children: [
+        { key: 1, value: 'one' },
+        { bitmap: 0b11, children: [{ key: 2, value: 'two' }, { key: 18, value: 'eighteen' }] },
+      ],
+    });
+  });
+
+  it('stores only the children which are present in trie nodes', () => {
+    const adapter = new MapAdapter<number, string>();
+    const map = adapter.create();
+
+    // 2 and 18 share the same lowest 4 bits, so they are pushed down into a nested trie node.
+    adapter.set(map, 1, 'one');
+    adapter.set(map, 2, 'two');
+    adapter.set(map, 18, 'eighteen');
+
+    expect(map.root).toEqual({
+      bitmap: 0b110,
+      children: [
+        { key: 1, value: 'one' },
+        { bitmap: 0b11, children: [{ key: 2, value: 'two' }, { key: 18, value: 'eighteen' }] },
+      ],
+    });
+
+    adapter.remove(map, 1);
+
+    expect(map.root.bitmap).toBe(0b100);
+    expect(map.root.children.length).toBe(1);
+  });
+
+  it('migrates a map with sparse array trie nodes', () => {
+    const adapter = new MapAdapter<number, string>();
+    const root: any[] = [];
+    root[1] = { key: 1, value: 'one' };
+    root[2] = [{ key: 2, value: 'two' }, { key: 18, value: 'eighteen' }];
+    const legacyMap: ILegacyMap<number, string> = { root, size: 3 };
+
+    const map = adapter.migrate(legacyMap);
+
+    expect(map).toBe(legacyMap);
+    expect(map.root.bitmap).toBe(0b110);
+    expect(adapter.getSize(map)).toBe(3);
+    expect(adapter.get(map, 1)).toBe('one');
+    expect(adapter.get(map, 18)).toBe('eighteen');
+    expect(Array.from(adapter.getKeysIterable(map)).sort((a, b) => a - b)).toEqual([1, 2, 18]);
+
+    adapter.set(map, 34, 'thirty four');
+    expect(adapter.get(map, 34)).toBe('thirty four');
+    expect(adapter.migrate(map)).toBe(map);
+  });
+
+  it('migrates a map with plain object collision buckets', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      protected maxDepth = 1;
+    }
+
+    const adapter = new TestAdapter<string, number>();
+    const root: any[] = [];
+    root[3] = { map: { a: { key: 'a', value: 1 }, b: { key: 'b', value: 2 } } };
+    const legacyMap: ILegacyMap<string, number> = { root, size: 2 };
+    jest.spyOn(hash, 'hash').mockImplementation(() => 3);
+
+    const map = adapter.migrate(legacyMap);
+
+    expect(map.root.children).toEqual([{ entries: [{ key: 'a', value: 1 }, { key: 'b', value: 2 }] }]);
+    expect(adapter.get(map, 'a')).toBe(1);
+    expect(adapter.get(map, 'b')).toBe(2);
+  });
+
+  it('migrates a map to the same shape as a map created from its entries', () => {
+    const adapter = new MapAdapter<number, string>();
+    const root: any[] = [];
+    root[1] = { key: 1, value: 'one' };
+    // Older versions left behind empty trie nodes and lone values deep in the trie when keys were removed.
+    root[2] = [];
+    root[2][1] = { key: 18, value: 'eighteen' };
+    root[2][3] = [];
+    root[3] = [[]];
+    root[4] = [{ key: 4, value: 'four' }, { key: 20, value: 'twenty' }];
+    const legacyMap: ILegacyMap<number, string> = { root, size: 4 };
+
+    const map = adapter.migrate(legacyMap);
+
+    expect(map).toEqual(adapter.createFrom([[1, 'one'], [18, 'eighteen'], [4, 'four'], [20, 'twenty']]));
+  });
+
+  it('migrates a map without empty collision buckets', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      // Collision buckets are stored in the root node.
+      protected maxDepth = 2;
+    }
+
+    const adapter = new TestAdapter<string, number>();
+    const root: any[] = [];
+    root[3] = { map: { a: { key: 'a', value: 1 }, b: { key: 'b', value: 2 } } };
+    root[5] = { map: {} };
+    const legacyMap: ILegacyMap<string, number> = { root, size: 2 };
+    jest.spyOn(hash, 'hash').mockImplementation(() => 3);
+
+    expect(adapter.migrate(legacyMap)).toEqual(adapter.createFrom([['a', 1], ['b', 2]]));
+  });
+
+  it('supports composite keys using custom hash and equals functions', () => {
+    type CompositeKey = [string, number];
+    const adapter = new MapAdapter<CompositeKey, string>({
+      hash: (key) => hash.hash(`${key[0]}:${key[1]}`),
+      equals: (a, b) => a[0] === b[0] && a[1] === b[1],
+    });
+    const map = adapter.create();
+
+    for (let i = 1; i <= 50; i++) {
+      adapter.set(map, ['tenant', i], `doc ${i}`);
+    }
+    adapter.set(map, ['tenant', 1], 'updated');
+    adapter.remove(map, ['tenant', 2]);
+
+    expect(adapter.getSize(map)).toBe(49);
+    expect(adapter.get(map, ['tenant', 1])).toBe('updated');
+    expect(adapter.has(map, ['tenant', 2])).toBe(false);
+    expect(adapter.get(map, ['tenant', 50])).toBe('doc 50');
+    expect(adapter.has(map, ['other', 50])).toBe(false);
+    expect(Array.from(adapter.getKeysIterable(map)).length).toBe(49);
+  });
+
+  it('stores keys with the same hash code in a bucket compared using the equals function', () => {
+    const adapter = new MapAdapter<{ id: number }, string>({
+      hash: () => 42,
+      equals: (a, b) => a.id === b.id,
+    });
+    const map = adapter.create();
+
+    adapter.set(map, { id: 1 }, 'one');
+    adapter.set(map, { id: 2 }, 'two');
+    adapter.set(map, { id: 3 }, 'three');
+    adapter.set(map, { id: 2 }, 'two updated');
+    adapter.update(map, { id: 3 }, () => 'three updated');
+
+    expect(adapter.getSize(map)).toBe(3);
+    expect(adapter.get(map, { id: 1 })).toBe('one');
+    expect(adapter.get(map, { id: 2 })).toBe('two updated');
+    expect(adapter.get(map, { id: 3 })).toBe('three updated');
+    expect(adapter.get(map, { id: 4 })).toBeUndefined();
+
+    adapter.remove(map, { id: 4 });
+    expect(adapter.getSize(map)).toBe(3);
+
+    adapter.remove(map, { id: 1 });
+    adapter.remove(map, { id: 2 });
+    adapter.remove(map, { id: 3 });
+    expect(map).toEqual(adapter.create());
+  });
+
+  it('does not update a different key stored in the same slot', () => {
+    const adapter = new MapAdapter<string, number>();
+    const map = adapter.create();
+    jest.spyOn(hash, 'hash').mockImplementation(() => 987654321);
+    const updater = jest.fn(() => 2);
+
+    adapter.set(map, 'test', 1);
+
+    expect(adapter.update(map, 'other', updater)).toBeUndefined();
+    expect(updater).not.toHaveBeenCalled();
+    expect(adapter.get(map, 'test')).toBe(1);
+  });
+
+  it('keeps numeric and string keys distinct when their hash codes collide', () => {
+    const adapter = new MapAdapter<number|string, string>();
+    const map = adapter.create();
+    jest.spyOn(hash, 'hash').mockImplementation(() => 987654321);
+
+    adapter.set(map, '1', 'string');
+
+    expect(adapter.has(map, 1)).toBe(false);
+
+    adapter.set(map, 1, 'number');
+    adapter.set(map, 2, 'two');
+
+    expect(adapter.getSize(map)).toBe(3);
+    expect(adapter.get(map, '1')).toBe('string');
+    expect(adapter.get(map, 1)).toBe('number');
+
+    adapter.remove(map, 1);
+
+    expect(adapter.getSize(map)).toBe(2);
+    expect(adapter.has(map, 1)).toBe(false);
+    expect(adapter.get(map, '1')).toBe('string');
+  });
+
+  it('keeps numeric and string keys distinct in a collision bucket at maxDepth', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      protected maxDepth = 3;
+    }
+
+    const adapter = new TestAdapter<number|string, string>();
+    const map = adapter.create();
+    jest.spyOn(hash, 'hash').mockImplementation(() => 987654321);
+
+    adapter.set(map, 1, 'number');
+    adapter.set(map, '1', 'string');
+    adapter.set(map, 1, 'number updated');
+
+    expect(adapter.getSize(map)).toBe(2);
+    expect(Array.from(adapter.getIterable(map))).toEqual([[1, 'number updated'], ['1', 'string']]);
+
+    adapter.remove(map, '1');
+
+    expect(adapter.getSize(map)).toBe(1);
+    expect(adapter.has(map, '1')).toBe(false);
+    expect(adapter.get(map, 1)).toBe('number updated');
+  });
+
+  it('sets many entries', () => {
+    const adapter = new MapAdapter<number, string>();
+    const map = adapter.create();
+    const expected = adapter.create();
+    const entries = range(1, 500).map(i => [i % 400, `data ${i}`] as [number, string]);
+
+    adapter.set(map, 1, 'existing');
+    adapter.set(expected, 1, 'existing');
+    entries.forEach(([key, value]) => adapter.set(expected, key, value));
+
+    const summary = adapter.setMany(map, entries);
+
+    expect(summary).toEqual({ added: 399, updated: 101, removed: 0 });
+    expect(map).toEqual(expected);
+  });
+
+  it('sets many entries with hash conflicts at maxDepth', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      protected maxDepth = 3;
+    }
+
+    const adapter = new TestAdapter<number, string>();
+    const map = adapter.create();
+    const expected = adapter.create();
+    const entries = range(1, 100).map(i => [i, `data ${i}`] as [number, string]);
+    jest.spyOn(hash, 'hash').mockImplementation((key) => (key as number) % 7);
+
+    adapter.set(map, 3, 'existing');
+    adapter.set(expected, 3, 'existing');
+    entries.forEach(([key, value]) => adapter.set(expected, key, value));
+
+    const summary = adapter.setMany(map, entries);
+
+    expect(summary).toEqual({ added: 99, updated: 1, removed: 0 });
+    expect(map).toEqual(expected);
+  });
+
+  it('removes many keys', () => {
+    const adapter = new MapAdapter<number, string>();
+    const map = adapter.createFrom(range(1, 100).map(i => [i, `data ${i}`] as [number, string]));
+
+    const summary = adapter.removeMany(map, range(51, 150));
+
+    expect(summary).toEqual({ added: 0, updated: 0, removed: 50 });
+    expect(map).toEqual(adapter.createFrom(range(1, 50).map(i => [i, `data ${i}`] as [number, string])));
+  });
+
+  it('removes many keys with hash conflicts at maxDepth', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      protected maxDepth = 3;
+    }
+
+    const adapter = new TestAdapter<number, string>();
+    jest.spyOn(hash, 'hash').mockImplementation((key) => (key as number) % 7);
+    const map = adapter.createFrom(range(1, 100).map(i => [i, `data ${i}`] as [number, string]));
+    const expected = adapter.createFrom(range(1, 100).map(i => [i, `data ${i}`] as [number, string]));
+    const removed = range(1, 100).filter(i => i % 7 !== 3 || i < 80).concat([200]);
+
+    removed.forEach(key => adapter.remove(expected, key));
+
+    expect(adapter.removeMany(map, removed)).toEqual({ added: 0, updated: 0, removed: 97 });
+    expect(map).toEqual(expected);
+  });
+
+  it('only copies the nodes which hold removed or updated keys within Immer drafts', () => {
+    const adapter = new MapAdapter<number, { data: string }>();
+    const initial = adapter.createFrom(range(0, 255).map(i => [i, { data: `data ${i}` }] as [number, { data: string }]));
+
+    const next = produce(initial, (draft: typeof initial) => {
+      adapter.removeMany(draft, [1, 17, 33]);
+      adapter.updateMany(draft, [2, 18], (item, key) => ({ data: `updated ${key}` }));
+    });
+
+    expect(adapter.getSize(next)).toBe(253);
+    expect(adapter.get(next, 17)).toBeUndefined();
+    expect(adapter.get(next, 18)).toEqual({ data: 'updated 18' });
+    expect(next.root.children[0]).toBe(initial.root.children[0]);
+    expect(next.root.children[3]).toBe(initial.root.children[3]);
+    expect(next.root.children[1]).not.toBe(initial.root.children[1]);
+  });
+
+  it('updates many keys', () => {
+    const adapter = new MapAdapter<number, { data: string }>();
+    const map = adapter.createFrom(range(1, 10).map(i => [i, { data: `data ${i}` }] as [number, { data: string }]));
+
+    const summary = adapter.updateMany(map, [1, 2, 11], (item, key) => {
+      if (key !== 1) return { data: 'replaced' };
+
+      item.data = 'mutated';
+      return undefined;
+    });
+
+    expect(summary).toEqual({ added: 0, updated: 2, removed: 0 });
+    expect(adapter.get(map, 1)).toEqual({ data: 'mutated' });
+    expect(adapter.get(map, 2)).toEqual({ data: 'replaced' });
+    expect(adapter.has(map, 11)).toBe(false);
+  });
+
+  it('diffs two versions of a map', () => {
+    const adapter = new MapAdapter<number, { data: string }>();
+    const prev = adapter.createFrom(range(1, 100).map(i => [i, { data: `data ${i}` }] as [number, { data: string }]));
+
+    const next = produce(prev, (draft: typeof prev) => {
+      adapter.set(draft, 101, { data: 'added' });
+      adapter.remove(draft, 50);
+      adapter.update(draft, 7, (item) => { item.data = 'changed'; });
+    });
+
+    const changes = adapter.diff(prev, next);
+
+    expect(changes.length).toBe(3);
+    expect(changes).toContainEqual({ type: 'added', key: 101, value: { data: 'added' } });
+    expect(changes).toContainEqual({ type: 'removed', key: 50, value: { data: 'data 50' } });
+    expect(changes).toContainEqual({ type: 'changed', key: 7, value: { data: 'changed' }, previousValue: { data: 'data 7' } });
+    expect(adapter.diff(next, prev)).toContainEqual({ type: 'removed', key: 101, value: { data: 'added' } });
+  });
+
+  it('diffs identical and empty maps', () => {
+    const adapter = new MapAdapter<number, string>();
+    const map = adapter.createFrom(range(1, 3).map(i => [i, `data ${i}`] as [number, string]));
+
+    expect(adapter.diff(map, map)).toEqual([]);
+    expect(adapter.diff(adapter.create(), map).map(change => change.type)).toEqual(['added', 'added', 'added']);
+    expect(adapter.diff(map, adapter.create()).map(change => change.type)).toEqual(['removed', 'removed', 'removed']);
+  });
+
+  it('diffs maps with hash conflicts at maxDepth', () => {
+    class TestAdapter<K extends Key, V> extends MapAdapter<K, V> {
+      protected maxDepth = 3;
+    }
+
+    const adapter = new TestAdapter<number, string>();
+    jest.spyOn(hash, 'hash').mockImplementation(() => 987654321);
+    const prev = adapter.createFrom([[1, 'one'], [2, 'two'], [3, 'three']]);
+    const next = adapter.createFrom([[3, 'three'], [2, 'TWO'], [4, 'four']]);
+
+    expect(adapter.diff(prev, next)).toEqual([
+      { type: 'removed', key: 1, value: 'one' },
+      { type: 'changed', key: 2, value: 'TWO', previousValue: 'two' },
+      { type: 'added', key: 4, value: 'four' },
+    ]);
+  });
+
+  it('skips shared parts of the trie when diffing', () => {
+    const equals = jest.fn((a: number, b: number) => a === b);
+    const adapter = new MapAdapter<number, string>({ equals });
+    const prev = adapter.createFrom(range(1, 1000).map(i => [i, `data ${i}`] as [number, string]));
+    const next = produce(prev, (draft: typeof prev) => {
+      adapter.set(draft, 500, 'changed');
+    });
+    equals.mockClear();
+
+    expect(adapter.diff(prev, next)).toEqual([{ type: 'changed', key: 500, value: 'changed', previousValue: 'data 500' }]);
+    expect(equals).toHaveBeenCalledTimes(1);
+  });
+
   it('iterates through map entries', () => {
     const adapter = new MapAdapter<number, typeof testValue>();
     const map = adapter.create();
@@ -1,28 +1,44 @@
 import {hash} from './hash';
-import {iterableToIterableIterator, mapIterable} from './util';
+import {BatchSummary, createBatchSummary, iterableToIterableIterator, mapIterable, popCount} from './util';
 
 export interface IMap<K, V> {
   root: ITrieNode<K, V>,
   size: number;
 }
 
+/** The shape of maps created by older versions of this library. See MapAdapter.migrate. */
+export interface ILegacyMap<K, V> {
+  root: ILegacyTrieNode<K, V>,
+  size: number;
+}
+
 export type Key = number | string;
 
-export interface INumberIndexable<K, V> {
-  [key: number]: ISingleValueNode<K, V>;
-}
+export type HashFunction<K> = (key: K) => number;
 
-export interface IStringIndexable<K, V> {
-  [key: string]: ISingleValueNode<K, V>;
-}
+export type KeyEqualityComparer<K> = (a: K, b: K) => boolean;
 
+/**
+ * A bitmap indexed trie node. Bit i of the bitmap is set when the node has a child for partial hash code i, and the
+ * children array holds only the children which are present (ordered by partial hash code).
+ */
 export interface ITrieNode<K, V> {
-  [index: number]: ITrieNode<K, V> | IMultiValueNode<K, V> | ISingleValueNode<K, V>;
+  bitmap: number;
+  children: Array<ITrieNode<K, V> | IMultiValueNode<K, V> | ISingleValueNode<K, V>>;
+}
+
+export interface ILegacyTrieNode<K, V> {
+  [index: number]: ILegacyTrieNode<K, V> | ILegacyMultiValueNode<K, V> | ISingleValueNode<K, V>;
   length: number;
 }
 
+/** Holds the entries whose keys have the same hash code. */
 export interface IMultiValueNode<K, V> {
-  map: INumberIndexable<K, V> & IStringIndexable<K, V>;
+  entries: Array<ISingleValueNode<K, V>>;
+}
+
+export interface ILegacyMultiValueNode<K, V> {
+  map: { [key: string]: ISingleValueNode<K, V> };
 }
 
 export interface ISingleValueNode<K, V> {
@@ -30,11 +46,40 @@ export interface ISingleValueNode<K, V> {
   value: V;
 }
 
+/** A difference between two versions of a map, as returned by MapAdapter.diff. */
+export type MapChange<K, V> =
+  { type: 'added', key: K, value: V } |
+  { type: 'removed', key: K, value: V } |
+  { type: 'changed', key: K, value: V, previousValue: V };
+
+type TrieChild<K, V> = ITrieNode<K, V> | IMultiValueNode<K, V> | ISingleValueNode<K, V>;
+
+type TrieParentPath<K, V> = {
+  index: number;
+  node: ITrieNode<K, V>;
+}[];
+
+type HashedEntry<K, V> = {
+  key: K;
+  value: V;
+  hashCode: number;
+};
+
+type HashedKey<K> = {
+  key: K;
+  hashCode: number;
+};
+
 /**
  * This adapter class can be used to interact with an Immerutable Map stored in the ngrx store.
  * Immerutable maps are very similar to maps provided by ImmutableJS. They use a trie structure
  * for structural sharing which allows for items to be inserted and removed without the need
- * to shallow copy the entire map. The keys used by this map may be strings or numbers only.
+ * to shallow copy the entire map. By default, the keys used by this map may be strings or numbers only. Other kinds of
+ * keys (such as composite keys) may be used by providing hash and equals functions.
+ *
+ * Like ImmutableJS, each node of the trie only stores the children which are present (indexed by a bitmap), which keeps
+ * the arrays copied by Immer small. Removing keys collapses the trie back to the shape it would have had if the keys
+ * had never been added, so maps don't accumulate empty nodes over time.
  *
  * Runtimes:
  * Get/Has: O(1)
@@ -43,7 +88,7 @@ export interface ISingleValueNode<K, V> {
  * Iterate: O(n)
  * Note: The constant factor for these operations will be considerably higher than for standard maps.
  */
-export class MapAdapter<K extends Key, V> {
+export class MapAdapter<K, V> {
   /** The number of bits to use per level of the trie. */
   protected shift = 4;
   /** The maximum length of an internal node in the map (containing value and child pointers). */
@@ -52,6 +97,23 @@ export class MapAdapter<K extends Key, V> {
   protected mask = this.trieNodeSize - 1;
   /** The maximum number of levels in the tree (when we've used up all the bits in the key). */
   protected maxDepth = Math.ceil(32 / this.shift);
+  /** Computes the hash code of a key (args.hash, or the default hash for string and number keys). */
+  readonly hashKey: HashFunction<K>;
+  /** Tests two keys for equality (args.equals, or === by default). */
+  readonly equals: KeyEqualityComparer<K>;
+
+  /**
+   * @param args.hash A function which computes a 32 bit integer hash code for a key. Keys which are equal must have the
+   *                  same hash code. Optional (by default, only string and number keys are supported).
+   * @param args.equals A function which tests two keys for equality. Optional (by default uses ===).
+   */
+  constructor(args: {
+    hash?: HashFunction<K>,
+    equals?: KeyEqualityComparer<K>,
+  } = {}) {
+    this.hashKey = args.hash || ((key) => hash(key as any as Key));
+    this.equals = args.equals || ((a, b) => a === b);
+  }
 
   /**
    * Creates a new Immerutable map. This map should be stored in the ngrx store.
@@ -65,32 +127,40 @@ export class MapAdapter<K extends Key, V> {
     };
   }
 
-  /** Returns true if the map contains the key, false otherwise. */
-  has(map: IMap<K, V>, key: K): boolean {
-    const {valueNode, depth} = this.lookupValueNode(map, key);
-
-    if (valueNode === undefined) return false;
+  /**
+   * Creates a new Immerutable map containing the provided entries. The trie is built in one batch, with the entries
+   * grouped by hash code so that each trie node is only created and filled once. If a key appears more than once, the
+   * last entry for the key is used.
+   */
+  createFrom(entries: Iterable<[K, V]>): IMap<K, V> {
+    const map = this.create();
+    this.setMany(map, entries);
+    return map;
+  }
 
-    if (depth < this.maxDepth) {
-      return (valueNode as ISingleValueNode<K, V>).key === key;
-    } else {
-      return key in (valueNode as IMultiValueNode<K, V>).map;
+  /**
+   * Converts a map created by an older version of this library (in which trie nodes were sparse arrays and keys with
+   * the same hash code were stored in plain objects) to the current format. The map is converted in place (so this may
+   * be called on an Immer draft) and returned. Maps which are already in the current format are returned unchanged.
+   */
+  migrate(map: IMap<K, V>|ILegacyMap<K, V>): IMap<K, V> {
+    if (Array.isArray(map.root)) {
+      (map as IMap<K, V>).root = this.migrateTrieNode(map.root as ILegacyTrieNode<K, V>);
     }
+
+    return map as IMap<K, V>;
+  }
+
+  /** Returns true if the map contains the key, false otherwise. */
+  has(map: IMap<K, V>, key: K): boolean {
+    return this.getSingleValueNode(map, key) !== undefined;
   }
 
   /** Gets the value for the specified key. If the key does not exist, undefined is returned. */
   get(map: IMap<K, V>, key: K): V|undefined {
-    const {valueNode, depth} = this.lookupValueNode(map, key);
-
-    if (valueNode === undefined) return;
-
-    if (depth < this.maxDepth) {
-      return (valueNode as ISingleValueNode<K, V>).key === key ? (valueNode as ISingleValueNode<K, V>).value : undefined;
-    } else {
-      const existing = (valueNode as IMultiValueNode<K, V>).map[key as any];
+    const existing = this.getSingleValueNode(map, key);
 
-      return existing && existing.value;
-    }
+    return existing && existing.value;
   }
 
   /**
@@ -98,53 +168,65 @@ export class MapAdapter<K extends Key, V> {
    * If the key already exists, it will be replaced with the new value.
    */
   set(map: IMap<K, V>, key: K, value: V): void {
-    const {containingTrieNode, depth, index, valueNode} = this.lookupValueNode(map, key);
-
-    if (valueNode === undefined) {
-      map.size++;
+    this.setInTrieNode(map, map.root, 1, key, this.hashKey(key), value);
+  }
 
-      if (depth < this.maxDepth) {
-        containingTrieNode[index] = this.createSingleValueNode(key, value);
-      } else if (depth === this.maxDepth) {
-        const newValueNode = containingTrieNode[index] = this.createValueNode();
-        newValueNode.map[key as Key] = this.createSingleValueNode(key, value);
-      }
+  /**
+   * Stores each of the entries in the map, as if set were called for each entry in turn. The entries are grouped by
+   * the trie node they belong to, so each node is only visited once no matter how many of the entries it holds.
+   */
+  setMany(map: IMap<K, V>, entries: Iterable<[K, V]>): BatchSummary {
+    const summary = createBatchSummary();
+    const hashedEntries: Array<HashedEntry<K, V>> = [];
 
-      return;
+    for (const [key, value] of entries) {
+      hashedEntries.push({ key, value, hashCode: this.hashKey(key) });
     }
 
-    if (depth < this.maxDepth) {
-      // item already exists in single value node.
-      if ((valueNode as ISingleValueNode<K, V>).key === key) {
-        (valueNode as ISingleValueNode<K, V>).value = value;
-      } else {
-        this.pushSingleValueNodeDown(containingTrieNode, index, depth);
-        return this.set(map, key, value);
-      }
-    } else {
-      if (!(key in (valueNode as IMultiValueNode<K, V>).map)) {
-        map.size++;
-      }
+    this.setManyInTrieNode(map, map.root, 1, hashedEntries, summary);
 
-      (valueNode as IMultiValueNode<K, V>).map[key as Key] = this.createSingleValueNode(key, value);
-    }
+    return summary;
   }
 
   /**
    * Removes the specified key from the map. If the key does not exist, this is a no-op.
    */
   remove(map: IMap<K, V>, key: K): void {
-    const {containingTrieNode, depth, index, valueNode} = this.lookupValueNode(map, key);
+    const parentPath: TrieParentPath<K, V> = [];
+    const {containingTrieNode, depth, index, valueNode} = this.lookupValueNode(map, key, parentPath);
 
-    if (valueNode) {
-      if (depth < this.maxDepth) {
-        delete containingTrieNode[index];
-        map.size--;
-      } else if (key in (valueNode as IMultiValueNode<K, V>).map) {
-        delete (valueNode as IMultiValueNode<K, V>).map[key as Key];
-        map.size--;
+    if (valueNode === undefined) return;
+
+    if (depth < this.maxDepth) {
+      if (!this.equals((valueNode as ISingleValueNode<K, V>).key, key)) return;
+
+      this.removeChild(containingTrieNode, index);
+    } else {
+      const multiValueNode = valueNode as IMultiValueNode<K, V>;
+      const entryIndex = this.findEntryIndex(multiValueNode, key);
+      if (entryIndex === -1) return;
+
+      multiValueNode.entries.splice(entryIndex, 1);
+
+      if (multiValueNode.entries.length === 0) {
+        this.removeChild(containingTrieNode, index);
       }
     }
+
+    map.size--;
+    this.collapseTrieNodes(containingTrieNode, parentPath);
+  }
+
+  /**
+   * Removes each of the keys from the map. Keys which don't exist are ignored. Like setMany, the keys are grouped by
+   * the trie node they belong to, so each node is only visited once (and collapsed at most once).
+   */
+  removeMany(map: IMap<K, V>, keys: Iterable<K>): BatchSummary {
+    const summary = createBatchSummary();
+
+    this.removeManyInTrieNode(map, map.root, 1, this.hashKeys(keys), summary);
+
+    return summary;
   }
 
   /**
@@ -163,31 +245,45 @@ export class MapAdapter<K extends Key, V> {
    * ```
    */
   update(map: IMap<K, V>, key: K, updater: (item: V) => V|void|undefined): V|undefined {
-    const {depth, valueNode} = this.lookupValueNode(map, key);
-    if (valueNode === undefined) return;
-
-    if (depth < this.maxDepth) {
-      const value = (valueNode as ISingleValueNode<K, V>).value;
-      const retVal = updater(value) as V|undefined;
-      if (retVal !== undefined) {
-        (valueNode as ISingleValueNode<K, V>).value = retVal;
-        return retVal;
-      } else {
-        return value;
-      }
+    const existing = this.getSingleValueNode(map, key);
+    if (existing === undefined) return;
+
+    const value = existing.value;
+    const retVal = updater(value) as V|undefined;
+    if (retVal !== undefined) {
+      existing.value = retVal;
+      return retVal;
     } else {
-      const existing = (valueNode as IMultiValueNode<K, V>).map[key as Key];
-      const value = existing && existing.value;
-      const retVal = updater(value) as V|undefined;
-      if (retVal !== undefined) {
-        (valueNode as IMultiValueNode<K, V>).map[key as Key] = this.createSingleValueNode(key, retVal);
-        return retVal;
-      } else {
-        return value;
-      }
+      return value;
     }
   }
 
+  /**
+   * Updates the value of each of the keys using an updater function, which also receives the key. Keys which don't
+   * exist are ignored. The keys are grouped by the trie node they belong to, so each node is only visited once (which
+   * means the updater isn't necessarily called in the order of the keys).
+   */
+  updateMany(map: IMap<K, V>, keys: Iterable<K>, updater: (item: V, key: K) => V|void|undefined): BatchSummary {
+    const summary = createBatchSummary();
+
+    this.updateManyInTrieNode(map.root, 1, this.hashKeys(keys), updater, summary);
+
+    return summary;
+  }
+
+  /**
+   * Gets the keys which were added, removed or changed between two versions of a map (for instance, the previous and
+   * next state of an Immer producer). Parts of the trie which are shared by both versions are skipped, so the cost is
+   * proportional to the size of the change rather than the size of the map. A value is considered changed when it is
+   * no longer the same object (or primitive value).
+   */
+  diff(prev: IMap<K, V>, next: IMap<K, V>): Array<MapChange<K, V>> {
+    const changes: Array<MapChange<K, V>> = [];
+    this.diffTrieChildren(prev.root, next.root, changes);
+
+    return changes;
+  }
+
   /** Gets the number of keys in the map. */
   getSize(map: IMap<K, V>): number {
     return map.size;
@@ -229,43 +325,36 @@ export class MapAdapter<K extends Key, V> {
   getIterable(map: IMap<K, V>): Iterable<[K, V]> {
     type Frame = {
       index: number,
-      content: ITrieNode<K, V> | ISingleValueNode<K, V> | IMultiValueNode<K, V>,
+      children: Array<ITrieNode<K, V> | ISingleValueNode<K, V> | IMultiValueNode<K, V>>,
     };
 
     return {
       [Symbol.iterator]: () => {
-        const stack: Frame[] = [{ index: 0, content: map.root }];
+        const stack: Frame[] = [{ index: 0, children: map.root.children }];
 
         const traverseToFurthestLeft = (frame: Frame): ISingleValueNode<K, V>|undefined => {
           if (frame === undefined) return undefined;
 
-          if (Array.isArray(frame.content)) {
-            if (frame.index < frame.content.length) {
-              const child = frame.content[frame.index++];
-              if (child === undefined) {
-                return traverseToFurthestLeft(frame);
-              }
+          if (frame.index < frame.children.length) {
+            const child = frame.children[frame.index++];
 
-              const nextFrame = { content: child, index: 0 };
+            if (this.isTrieNode(child)) {
+              const nextFrame = { children: child.children, index: 0 };
               stack.push(nextFrame);
+
               return traverseToFurthestLeft(nextFrame);
+            } else if ('value' in child) {
+              return child as ISingleValueNode<K, V>;
             } else {
-              stack.pop();
+              const nextFrame = { children: (child as IMultiValueNode<K, V>).entries, index: 0 };
+              stack.push(nextFrame);
 
-              return traverseToFurthestLeft(stack[stack.length - 1]);
+              return traverseToFurthestLeft(nextFrame);
             }
-          } else if ('value' in frame.content) {
-            stack.pop();
-
-            return frame.content as ISingleValueNode<K, V>;
           } else {
             stack.pop();
-            const multiValueNode = frame.content as IMultiValueNode<K, V>;
-            const nextContent = Object.keys(multiValueNode.map).map(key => multiValueNode.map[key]);
-            const nextFrame = { content: nextContent, index: 0 };
-            stack.push(nextFrame);
 
-            return traverseToFurthestLeft(nextFrame);
+            return traverseToFurthestLeft(stack[stack.length - 1]);
           }
         };
 
@@ -342,7 +431,10 @@ export class MapAdapter<K extends Key, V> {
   }
 
   private createTrieNode(): ITrieNode<K, V> {
-    return [];
+    return {
+      bitmap: 0,
+      children: [],
+    };
   }
 
   private createSingleValueNode(key: K, value: V) {
@@ -351,26 +443,329 @@ export class MapAdapter<K extends Key, V> {
 
   private createValueNode(): IMultiValueNode<K, V> {
     return {
-      map: Object.create(null),
+      entries: [],
     };
   }
 
-  private lookupValueNode(map: IMap<K, V>, key: K) {
-    let hashCode = hash(key);
-    let node: ITrieNode<K, V> = map.root;
+  /** Stores the value in the subtree rooted at the trie node. Returns true if the key was added to the map. */
+  private setInTrieNode(map: IMap<K, V>, trieNode: ITrieNode<K, V>, startDepth: number, key: K, hashCode: number, value: V): boolean {
+    const {containingTrieNode, depth, index, valueNode} = this.lookupValueNodeInTrieNode(trieNode, startDepth, hashCode);
+
+    if (valueNode === undefined) {
+      map.size++;
+
+      if (depth < this.maxDepth) {
+        this.setChild(containingTrieNode, index, this.createSingleValueNode(key, value));
+      } else if (depth === this.maxDepth) {
+        const newValueNode = this.createValueNode();
+        newValueNode.entries.push(this.createSingleValueNode(key, value));
+        this.setChild(containingTrieNode, index, newValueNode);
+      }
+
+      return true;
+    }
+
+    if (depth < this.maxDepth) {
+      // item already exists in single value node.
+      if (this.equals((valueNode as ISingleValueNode<K, V>).key, key)) {
+        (valueNode as ISingleValueNode<K, V>).value = value;
+        return false;
+      } else {
+        this.pushSingleValueNodeDown(containingTrieNode, index, depth);
+        return this.setInTrieNode(map, containingTrieNode, depth - 1, key, hashCode, value);
+      }
+    } else {
+      const multiValueNode = valueNode as IMultiValueNode<K, V>;
+      const entryIndex = this.findEntryIndex(multiValueNode, key);
+
+      if (entryIndex === -1) {
+        map.size++;
+        multiValueNode.entries.push(this.createSingleValueNode(key, value));
+        return true;
+      } else {
+        multiValueNode.entries[entryIndex] = this.createSingleValueNode(key, value);
+        return false;
+      }
+    }
+  }
+
+  private setManyInTrieNode(
+    map: IMap<K, V>,
+    trieNode: ITrieNode<K, V>,
+    depth: number,
+    entries: Array<HashedEntry<K, V>>,
+    summary: BatchSummary,
+  ) {
+    const groups = this.groupByPartialHashCode(entries, depth);
+
+    for (let index = 0; index < groups.length; index++) {
+      const group = groups[index];
+      if (group === undefined) continue;
+
+      // Entries are set one at a time until the child is a trie node, at which point the rest can be handed down.
+      let child = this.getChild(trieNode, index);
+      let i = 0;
+
+      while (i < group.length && (child === undefined || !this.isTrieNode(child))) {
+        const entry = group[i++];
+        const added = this.setInTrieNode(map, trieNode, depth, entry.key, entry.hashCode, entry.value);
+
+        if (added) {
+          summary.added++;
+        } else {
+          summary.updated++;
+        }
+
+        child = this.getChild(trieNode, index);
+      }
+
+      if (i < group.length) {
+        this.setManyInTrieNode(map, child as ITrieNode<K, V>, depth + 1, group.slice(i), summary);
+      }
+    }
+  }
+
+  private removeManyInTrieNode(
+    map: IMap<K, V>,
+    trieNode: ITrieNode<K, V>,
+    depth: number,
+    keys: Array<HashedKey<K>>,
+    summary: BatchSummary,
+  ) {
+    const groups = this.groupByPartialHashCode(keys, depth);
+
+    // Work from right to left so that removing children doesn't shift the children still to be visited.
+    for (let index = groups.length - 1; index >= 0; index--) {
+      const group = groups[index];
+      const child = group && this.getChild(trieNode, index);
+      if (child === undefined) continue;
+
+      if (this.isTrieNode(child)) {
+        this.removeManyInTrieNode(map, child, depth + 1, group, summary);
+
+        // Collapse the child in the same way as collapseTrieNodes does after a single remove.
+        if (child.children.length === 0) {
+          this.removeChild(trieNode, index);
+        } else if (child.children.length === 1 && !this.isTrieNode(child.children[0])) {
+          const loneSingleValueNode = this.getLoneSingleValueNode(child.children[0] as IMultiValueNode<K, V> | ISingleValueNode<K, V>);
+          if (loneSingleValueNode !== undefined) this.setChild(trieNode, index, loneSingleValueNode);
+        }
+      } else if ('value' in child) {
+        const singleValueNode = child as ISingleValueNode<K, V>;
+
+        if (group.some(hashedKey => this.equals(singleValueNode.key, hashedKey.key))) {
+          this.removeChild(trieNode, index);
+          map.size--;
+          summary.removed++;
+        }
+      } else {
+        const multiValueNode = child as IMultiValueNode<K, V>;
+
+        for (const hashedKey of group) {
+          const entryIndex = this.findEntryIndex(multiValueNode, hashedKey.key);
+          if (entryIndex === -1) continue;
+
+          multiValueNode.entries.splice(entryIndex, 1);
+          map.size--;
+          summary.removed++;
+        }
+
+        if (multiValueNode.entries.length === 0) this.removeChild(trieNode, index);
+      }
+    }
+  }
+
+  private updateManyInTrieNode(
+    trieNode: ITrieNode<K, V>,
+    depth: number,
+    keys: Array<HashedKey<K>>,
+    updater: (item: V, key: K) => V|void|undefined,
+    summary: BatchSummary,
+  ) {
+    const groups = this.groupByPartialHashCode(keys, depth);
+
+    for (let index = 0; index < groups.length; index++) {
+      const group = groups[index];
+      const child = group && this.getChild(trieNode, index);
+      if (child === undefined) continue;
+
+      if (this.isTrieNode(child)) {
+        this.updateManyInTrieNode(child, depth + 1, group, updater, summary);
+        continue;
+      }
+
+      for (const hashedKey of group) {
+        const existing = this.getSingleValueNodeInValueNode(child, hashedKey.key);
+        if (existing === undefined) continue;
+
+        const retVal = updater(existing.value, hashedKey.key) as V|undefined;
+        if (retVal !== undefined) {
+          existing.value = retVal;
+        }
+
+        summary.updated++;
+      }
+    }
+  }
+
+  private hashKeys(keys: Iterable<K>): Array<HashedKey<K>> {
+    const hashedKeys: Array<HashedKey<K>> = [];
+
+    for (const key of keys) {
+      hashedKeys.push({ key, hashCode: this.hashKey(key) });
+    }
+
+    return hashedKeys;
+  }
+
+  private groupByPartialHashCode<E extends { hashCode: number }>(entries: E[], depth: number): E[][] {
+    const groups: E[][] = [];
+
+    for (const entry of entries) {
+      const index = this.computePartialHashCode(entry.hashCode, depth);
+      (groups[index] || (groups[index] = [])).push(entry);
+    }
+
+    return groups;
+  }
+
+  private diffTrieChildren(prev: TrieChild<K, V>|undefined, next: TrieChild<K, V>|undefined, changes: Array<MapChange<K, V>>) {
+    if (prev === next) return;
+
+    if (prev !== undefined && next !== undefined && this.isTrieNode(prev) && this.isTrieNode(next)) {
+      const bitmap = prev.bitmap | next.bitmap;
+
+      for (let index = 0; index < this.trieNodeSize; index++) {
+        if ((bitmap & (1 << index)) === 0) continue;
+
+        this.diffTrieChildren(this.getChild(prev, index), this.getChild(next, index), changes);
+      }
+
+      return;
+    }
+
+    // At least one side is a value node, so one of the sides holds very few entries.
+    const prevEntries: Array<ISingleValueNode<K, V>> = [];
+    const nextEntries: Array<ISingleValueNode<K, V>> = [];
+    if (prev !== undefined) this.collectEntries(prev, prevEntries);
+    if (next !== undefined) this.collectEntries(next, nextEntries);
+
+    const matched: boolean[] = [];
+
+    for (const prevEntry of prevEntries) {
+      let nextIndex = -1;
+
+      for (let i = 0; i < nextEntries.length; i++) {
+        if (!matched[i] && this.equals(prevEntry.key, nextEntries[i].key)) {
+          nextIndex = i;
+          break;
+        }
+      }
+
+      if (nextIndex === -1) {
+        changes.push({ type: 'removed', key: prevEntry.key, value: prevEntry.value });
+      } else {
+        matched[nextIndex] = true;
+
+        if (prevEntry.value !== nextEntries[nextIndex].value) {
+          changes.push({ type: 'changed', key: prevEntry.key, value: nextEntries[nextIndex].value, previousValue: prevEntry.value });
+        }
+      }
+    }
+
+    for (let i = 0; i < nextEntries.length; i++) {
+      if (!matched[i]) changes.push({ type: 'added', key: nextEntries[i].key, value: nextEntries[i].value });
+    }
+  }
+
+  private collectEntries(node: TrieChild<K, V>, entries: Array<ISingleValueNode<K, V>>) {
+    if (this.isTrieNode(node)) {
+      for (const child of node.children) {
+        this.collectEntries(child, entries);
+      }
+    } else if ('value' in node) {
+      entries.push(node as ISingleValueNode<K, V>);
+    } else {
+      entries.push(...(node as IMultiValueNode<K, V>).entries);
+    }
+  }
+
+  private getSingleValueNode(map: IMap<K, V>, key: K): ISingleValueNode<K, V>|undefined {
+    const {valueNode} = this.lookupValueNode(map, key);
+
+    return valueNode && this.getSingleValueNodeInValueNode(valueNode, key);
+  }
+
+  private getSingleValueNodeInValueNode(valueNode: IMultiValueNode<K, V> | ISingleValueNode<K, V>, key: K): ISingleValueNode<K, V>|undefined {
+    if ('value' in valueNode) {
+      return this.equals((valueNode as ISingleValueNode<K, V>).key, key) ? valueNode as ISingleValueNode<K, V> : undefined;
+    }
+
+    const multiValueNode = valueNode as IMultiValueNode<K, V>;
+    const entryIndex = this.findEntryIndex(multiValueNode, key);
+
+    return entryIndex === -1 ? undefined : multiValueNode.entries[entryIndex];
+  }
+
+  private findEntryIndex(multiValueNode: IMultiValueNode<K, V>, key: K): number {
+    for (let i = 0; i < multiValueNode.entries.length; i++) {
+      if (this.equals(multiValueNode.entries[i].key, key)) return i;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Walks up from the trie node a value was removed from, removing empty trie nodes and pulling a lone remaining value
+   * up into its parent. This leaves the trie in the same shape as if the removed key had never been added.
+   */
+  private collapseTrieNodes(trieNode: ITrieNode<K, V>, parentPath: TrieParentPath<K, V>) {
+    for (let i = parentPath.length - 1; i >= 0; i--) {
+      const parentInfo = parentPath[i];
+
+      if (trieNode.children.length === 0) {
+        this.removeChild(parentInfo.node, parentInfo.index);
+      } else if (trieNode.children.length === 1 && !this.isTrieNode(trieNode.children[0])) {
+        const loneSingleValueNode = this.getLoneSingleValueNode(trieNode.children[0] as IMultiValueNode<K, V> | ISingleValueNode<K, V>);
+        if (loneSingleValueNode === undefined) return;
+
+        this.setChild(parentInfo.node, parentInfo.index, loneSingleValueNode);
+      } else {
+        return;
+      }
+
+      trieNode = parentInfo.node;
+    }
+  }
+
+  private getLoneSingleValueNode(valueNode: IMultiValueNode<K, V> | ISingleValueNode<K, V>): ISingleValueNode<K, V>|undefined {
+    if ('value' in valueNode) return valueNode as ISingleValueNode<K, V>;
+
+    const entries = (valueNode as IMultiValueNode<K, V>).entries;
+
+    return entries.length === 1 ? entries[0] : undefined;
+  }
+
+  private lookupValueNode(map: IMap<K, V>, key: K, parentPath?: TrieParentPath<K, V>) {
+    return this.lookupValueNodeInTrieNode(map.root, 1, this.hashKey(key), parentPath);
+  }
+
+  private lookupValueNodeInTrieNode(trieNode: ITrieNode<K, V>, startDepth: number, hashCode: number, parentPath?: TrieParentPath<K, V>) {
+    let node = trieNode;
     let index = 0;
-    let depth = 1;
+    let depth = startDepth;
     let valueNode: IMultiValueNode<K, V> | ISingleValueNode<K, V> | undefined;
 
     while (depth <= this.maxDepth) {
       index = this.computePartialHashCode(hashCode, depth);
       depth++;
 
-      let nextNode: ITrieNode<K, V> | IMultiValueNode<K, V> | ISingleValueNode<K, V> = node[index];
+      let nextNode = this.getChild(node, index);
       if (nextNode === undefined) {
         valueNode = undefined;
         break;
-      } else if (Array.isArray(nextNode)) {
+      } else if (this.isTrieNode(nextNode)) {
+        if (parentPath) parentPath.push({ node, index });
         node = nextNode;
       } else {
         valueNode = nextNode as IMultiValueNode<K, V> | ISingleValueNode<K, V>;
@@ -382,18 +777,93 @@ export class MapAdapter<K extends Key, V> {
   }
 
   private pushSingleValueNodeDown(trieNode: ITrieNode<K, V>, index: number, depth: number) {
-    const singleValueNode = trieNode[index] as ISingleValueNode<K, V>;
-    const newTrieNode = trieNode[index] = this.createTrieNode();
-    const partialHash = this.computePartialHashCode(hash(singleValueNode.key), depth);
+    const singleValueNode = this.getChild(trieNode, index) as ISingleValueNode<K, V>;
+    const newTrieNode = this.createTrieNode();
+    const partialHash = this.computePartialHashCode(this.hashKey(singleValueNode.key), depth);
 
     if (depth === this.maxDepth - 1) {
-      const newValueNode = newTrieNode[partialHash] = this.createValueNode();
-      newValueNode.map[singleValueNode.key as Key] = singleValueNode;
+      const newValueNode = this.createValueNode();
+      newValueNode.entries.push(singleValueNode);
+      this.setChild(newTrieNode, partialHash, newValueNode);
+    } else {
+      this.setChild(newTrieNode, partialHash, singleValueNode);
+    }
+
+    this.setChild(trieNode, index, newTrieNode);
+  }
+
+  private isTrieNode(node: ITrieNode<K, V> | IMultiValueNode<K, V> | ISingleValueNode<K, V>): node is ITrieNode<K, V> {
+    return 'bitmap' in node;
+  }
+
+  private getChild(trieNode: ITrieNode<K, V>, index: number) {
+    const bit = 1 << index;
+    if ((trieNode.bitmap & bit) === 0) return undefined;
+
+    return trieNode.children[popCount(trieNode.bitmap & (bit - 1))];
+  }
+
+  private setChild(
+    trieNode: ITrieNode<K, V>,
+    index: number,
+    child: ITrieNode<K, V> | IMultiValueNode<K, V> | ISingleValueNode<K, V>
+  ) {
+    const bit = 1 << index;
+    const position = popCount(trieNode.bitmap & (bit - 1));
+
+    if ((trieNode.bitmap & bit) !== 0) {
+      trieNode.children[position] = child;
     } else {
-      newTrieNode[partialHash] = singleValueNode;
+      trieNode.children.splice(position, 0, child);
+      trieNode.bitmap |= bit;
     }
   }
 
+  private removeChild(trieNode: ITrieNode<K, V>, index: number) {
+    const bit = 1 << index;
+    if ((trieNode.bitmap & bit) === 0) return;
+
+    trieNode.children.splice(popCount(trieNode.bitmap & (bit - 1)), 1);
+    trieNode.bitmap &= ~bit;
+  }
+
+  /**
+   * Converts a legacy trie node, leaving out empty trie nodes and collision buckets (which older versions left behind
+   * when keys were removed) and pulling lone values up into their parents, so the migrated trie has the same shape as
+   * one created from the same entries.
+   */
+  private migrateTrieNode(legacyTrieNode: ILegacyTrieNode<K, V>): ITrieNode<K, V> {
+    const trieNode = this.createTrieNode();
+
+    for (let i = 0; i < legacyTrieNode.length; i++) {
+      const child = legacyTrieNode[i];
+      if (child === undefined) continue;
+
+      let migrated: TrieChild<K, V>|undefined;
+
+      if (Array.isArray(child)) {
+        const childTrieNode = this.migrateTrieNode(child);
+        const loneChild = childTrieNode.children.length === 1 && !this.isTrieNode(childTrieNode.children[0]) ?
+          this.getLoneSingleValueNode(childTrieNode.children[0] as IMultiValueNode<K, V> | ISingleValueNode<K, V>) :
+          undefined;
+
+        migrated = childTrieNode.children.length === 0 ? undefined : loneChild || childTrieNode;
+      } else if ('map' in child) {
+        const legacyMultiValueNode = child as ILegacyMultiValueNode<K, V>;
+        const multiValueNode = this.createValueNode();
+        Object.keys(legacyMultiValueNode.map).forEach(key => multiValueNode.entries.push(legacyMultiValueNode.map[key]));
+
+        migrated = multiValueNode.entries.length === 0 ? undefined : multiValueNode;
+      } else {
+        migrated = child as ISingleValueNode<K, V>;
+      }
+
+      if (migrated !== undefined) this.setChild(trieNode, i, migrated);
+    }
+
+    return trieNode;
+  }
+
   private computePartialHashCode(hashCode: number, depth: number) {
     return (hashCode >> ((depth - 1) * this.shift)) & this.mask;
   }
@@ -0,0 +1,135 @@
+import produce from 'immer';
+import {ILruCache} from './lrucache';
+import {memoize} from './memoize';
+import {Key} from './sortedmap';
+
+describe('memoize', () => {
+  it('stores results by key', () => {
+    const square = jest.fn((x: number) => x * x);
+    const memoized = memoize(square, { keyOf: x => x, capacity: 2 });
+
+    expect(memoized(2)).toBe(4);
+    expect(memoized(3)).toBe(9);
+    expect(memoized(2)).toBe(4);
+    expect(square).toHaveBeenCalledTimes(2);
+
+    // 3 is the least recently used, so it's evicted.
+    memoized(4);
+    memoized(2);
+    memoized(3);
+    expect(square).toHaveBeenCalledTimes(4);
+  });
+
+  it('stores one result by default', () => {
+    const concat = jest.fn((a: string, b: string) => a + b);
+    const memoized = memoize(concat, { keyOf: (a, b) => `${a}|${b}` });
+
+    memoized('a', 'b');
+    memoized('a', 'b');
+    memoized('b', 'a');
+    memoized('a', 'b');
+
+    expect(concat).toHaveBeenCalledTimes(3);
+  });
+
+  it('stores undefined results', () => {
+    const fn = jest.fn((x: number): string|undefined => undefined);
+    const memoized = memoize(fn, { keyOf: x => x });
+
+    expect(memoized(1)).toBeUndefined();
+    expect(memoized(1)).toBeUndefined();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores results in state', () => {
+    interface State {
+      items: number[];
+      totals: ILruCache<Key, number>;
+    }
+
+    // Immer 1.x can't tell whether an object is a draft, so the test keeps track of when it's drafting.
+    let drafting = false;
+    const sum = jest.fn((state: State, count: number) => state.items.slice(0, count).reduce((a, b) => a + b, 0));
+    const memoized = memoize(sum, {
+      keyOf: (state, count) => count,
+      capacity: 10,
+      cache: state => state.totals,
+      isDraft: () => drafting,
+    });
+    const state: State = { items: [1, 2, 3], totals: memoized.createCache() };
+
+    const next = produce(state, draft => {
+      drafting = true;
+      expect(memoized(draft, 2)).toBe(3);
+      expect(memoized(draft, 2)).toBe(3);
+      drafting = false;
+    });
+
+    expect(sum).toHaveBeenCalledTimes(1);
+    expect(next.totals).not.toBe(state.totals);
+
+    // Results stored in the draft aren't in the original state.
+    expect(memoized(state, 2)).toBe(3);
+    expect(sum).toHaveBeenCalledTimes(2);
+
+    // The produced state isn't a draft, so it's only read from (even when it isn't frozen, as in production).
+    expect(memoized(next, 2)).toBe(3);
+    expect(memoized(next, 1)).toBe(1);
+    expect(memoized(next, 1)).toBe(1);
+    expect(sum).toHaveBeenCalledTimes(4);
+  });
+
+  it('supports the memoized projection interface of ngrx', () => {
+    const double = jest.fn((x: number) => x * 2);
+    const projection = memoize(double, { keyOf: x => x });
+
+    expect(projection.memoized(1)).toBe(2);
+
+    projection.setResult(10);
+    expect(projection.memoized(1)).toBe(10);
+    projection.clearResult();
+    expect(projection.memoized(1)).toBe(2);
+    expect(double).toHaveBeenCalledTimes(1);
+
+    projection.reset();
+    expect(projection.memoized(1)).toBe(2);
+    expect(double).toHaveBeenCalledTimes(2);
+  });
+
+  it('compares the arguments by reference by default', () => {
+    const keys = jest.fn((obj: object, name: string|number) => Object.keys(obj).concat(String(name)));
+    const memoized = memoize(keys, { capacity: 10 });
+    const obj = { a: 1 };
+
+    const result = memoized(obj, 1);
+    expect(memoized(obj, 1)).toBe(result);
+    expect(memoized({ a: 1 }, 1)).not.toBe(result);
+    expect(memoized(obj, '1')).not.toBe(result);
+    expect(keys).toHaveBeenCalledTimes(3);
+  });
+
+  it('works as a custom memoizer for reselect style selector creators', () => {
+    // The calls reselect 4.x's createSelectorCreator makes: the result function is memoized with the memoize options,
+    // and the selector itself is memoized without any.
+    const createSelectorCreator = (memoizer: typeof memoize, memoizeOptions: any) =>
+      (inputSelector: (state: any) => any, resultFunc: (...args: any[]) => any) => {
+        const memoizedResultFunc = memoizer((...args: any[]) => resultFunc(...args), memoizeOptions);
+
+        return memoizer(function dependenciesChecker(state: any) {
+          return memoizedResultFunc(inputSelector(state));
+        });
+      };
+
+    const createSelector = createSelectorCreator(memoize, { keyOf: (id: number) => id, capacity: 5 });
+    const resultFunc = jest.fn((id: number) => ({ id }));
+    const selectUser = createSelector((state: { userId: number }) => state.userId, resultFunc);
+
+    const state = { userId: 1 };
+    const user = selectUser(state);
+    selectUser({ userId: 2 });
+
+    expect(selectUser({ userId: 1 })).toBe(user);
+    expect(selectUser(state)).toBe(user);
+    expect(resultFunc).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,107 @@
+import {ILruCache, LruCacheAdapter} from './lrucache';
+import {Key} from './sortedmap';
+
+export interface MemoizeOptions<F extends (...args: any[]) => any> {
+  /**
+   * Computes the key the result of a call is stored under. Calls with the same key share a result. Optional (by
+   * default, like reselect's default memoizer, calls share a result when their arguments are the same, comparing
+   * objects by reference).
+   */
+  keyOf?: (...args: Parameters<F>) => Key;
+  /** The max # of results to store. Optional (defaults to 1, like reselect's default memoizer). */
+  capacity?: number;
+  /**
+   * Gets the cache to store results in, for instance from the state passed to the function (which may be an Immer
+   * draft). The cache must be created by createCache. Optional (by default results are stored in a cache owned by the
+   * memoized function).
+   */
+  cache?: (...args: Parameters<F>) => ILruCache<Key, ReturnType<F>>;
+  /**
+   * Tests whether a cache returned by the cache option is a draft (for instance, using Immer's isDraft). Results are
+   * only stored in drafts, as state which has been committed to the store mustn't be modified, though results already
+   * stored in other caches are used. Optional (by default results are never stored in caches from the cache option).
+   */
+  isDraft?: (cache: ILruCache<Key, ReturnType<F>>) => boolean;
+}
+
+export interface MemoizedFunction<F extends (...args: any[]) => any> {
+  (...args: Parameters<F>): ReturnType<F>;
+  /** The memoized function itself (for ngrx's createSelectorFactory). */
+  memoized: (...args: Parameters<F>) => ReturnType<F>;
+  /** Creates an empty cache, for storing in state when the cache option is used. */
+  createCache: () => ILruCache<Key, ReturnType<F>>;
+  /** Removes all the results from the cache owned by the memoized function. */
+  reset: () => void;
+  /** Makes every call return the result, without calling the function (for instance, in tests). */
+  setResult: (result?: ReturnType<F>) => void;
+  /** Undoes setResult. */
+  clearResult: () => void;
+}
+
+/**
+ * Memoizes a function, storing its results in an LRU cache under the key computed by keyOf. The results may be stored
+ * in state (such as an Immer draft) using the cache option. May be used as the memoizer of reselect's
+ * createSelectorCreator (with the options passed as the memoize options), or of ngrx's createSelectorFactory.
+ */
+export function memoize<F extends (...args: any[]) => any>(
+  fn: F,
+  options: MemoizeOptions<F> = {},
+): MemoizedFunction<F> {
+  const keyOf = options.keyOf || createDefaultKeyOf();
+  const adapter = new LruCacheAdapter<Key, ReturnType<F>>(options.capacity === undefined ? 1 : options.capacity, {
+    strict: true,
+  });
+  let ownCache: ILruCache<Key, ReturnType<F>>|undefined;
+  let override: { result: ReturnType<F>|undefined }|undefined;
+
+  const memoized = ((...args: Parameters<F>): ReturnType<F> => {
+    if (override) return override.result as ReturnType<F>;
+
+    const cache = options.cache ? options.cache(...args) : ownCache || (ownCache = adapter.create());
+    const key = keyOf(...args);
+    const writable = !options.cache || (!!options.isDraft && options.isDraft(cache));
+
+    // Results may be undefined, so has is checked rather than the result of get.
+    if (adapter.has(cache, key)) {
+      return (writable ? adapter.get(cache, key) : adapter.peek(cache, key)) as ReturnType<F>;
+    }
+
+    const result = fn(...args);
+    if (writable) adapter.set(cache, key, result);
+
+    return result;
+  }) as MemoizedFunction<F>;
+
+  memoized.memoized = memoized;
+  memoized.createCache = () => adapter.create();
+  memoized.reset = () => { ownCache = undefined; };
+  memoized.setResult = (result?: ReturnType<F>) => { override = { result }; };
+  memoized.clearResult = () => { override = undefined; };
+
+  return memoized;
+}
+
+// Computes a key from all the arguments of a call. Objects are numbered the first time they're seen, so they're
+// compared by reference (a WeakMap is used so they can still be garbage collected), and strings are quoted so they
+// can't be mistaken for numbers or each other.
+function createDefaultKeyOf(): (...args: any[]) => Key {
+  const objectIds = new WeakMap<object, number>();
+  let nextId = 0;
+
+  const keyOfArg = (arg: any): string => {
+    if ((typeof arg === 'object' && arg !== null) || typeof arg === 'function') {
+      let id = objectIds.get(arg);
+
+      if (id === undefined) {
+        id = nextId++;
+        objectIds.set(arg, id);
+      }
+
+      return `#${id}`;
+    }
+
+    return typeof arg === 'string' ? JSON.stringify(arg) : String(arg);
+  };
+
+  return (...args) => args.map(keyOfArg).join(',');
+}
@@ -0,0 +1,146 @@
+import produce from 'immer';
+import {MultiSortedMapAdapter} from './multisortedmap';
+
+interface Task {
+  title: string;
+  priority: number;
+  due: number;
+}
+
+const range = (start: number, end: number) => new Array(end - start + 1).join().split(',').map((empty, i) => i + start);
+
+// Titles sort in the same order as the ids, priorities in the reverse order, and due dates are interleaved.
+const toTask = (i: number): Task => ({ title: `task ${String.fromCharCode(96 + i)}`, priority: 100 - i, due: (i * 7) % 20 });
+const toEntry = (i: number) => [i, toTask(i)] as [number, Task];
+const sortBy = (ids: number[], getKey: (task: Task) => number|string) =>
+  ids.slice().sort((a, b) => getKey(toTask(a)) < getKey(toTask(b)) ? -1 : getKey(toTask(a)) > getKey(toTask(b)) ? 1 : 0);
+
+describe('Multi sorted map', () => {
+  const createAdapter = () => new MultiSortedMapAdapter<number, Task, 'title' | 'priority' | 'due'>({
+    indexes: {
+      title: { getOrderingKey: task => task.title },
+      priority: { getOrderingKey: task => task.priority, orderComparer: (a: number, b: number) => b - a },
+      due: { getOrderingKey: task => task.due },
+    },
+  });
+
+  it('sorts entries by each index', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.create();
+
+    range(1, 20).forEach(i => adapter.set(multiSortedMap, i, toTask(i)));
+
+    expect(adapter.getSize(multiSortedMap)).toBe(20);
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual(range(1, 20));
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'priority'))).toEqual(range(1, 20));
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'due'))).toEqual(sortBy(range(1, 20), task => task.due));
+    expect(Array.from(adapter.getIterable(multiSortedMap, 'title', 'backward'))).toEqual(range(1, 20).reverse().map(toEntry));
+    expect(Array.from(adapter.getValuesIterable(multiSortedMap, 'priority'))).toEqual(range(1, 20).map(toTask));
+  });
+
+  it('creates from entries', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 20).map(toEntry).concat([[5, toTask(25)]]));
+
+    expect(adapter.getSize(multiSortedMap)).toBe(20);
+    expect(adapter.get(multiSortedMap, 5)).toEqual(toTask(25));
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual(range(1, 4).concat(range(6, 20), [5]));
+    // Task 25 is due at the same time as task 5.
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'due'))).toEqual(sortBy(range(1, 20), task => task.due));
+  });
+
+  it('updates the order of each index', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 20).map(toEntry));
+
+    // Mutating the value changes its order in two of the indexes.
+    adapter.update(multiSortedMap, 3, task => {
+      task.priority = 0;
+      task.due = 100;
+    });
+
+    // Returning a new value changes its order in the title index.
+    adapter.update(multiSortedMap, 10, task => ({ ...task, title: 'a task' }));
+
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual([10].concat(range(1, 9), range(11, 20)));
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'priority'))).toEqual(range(1, 2).concat(range(4, 20), [3]));
+    expect(adapter.getLast(multiSortedMap, 'due')).toEqual({ ...toTask(3), priority: 0, due: 100 });
+    expect(adapter.indexOf(multiSortedMap, 'title', 10)).toBe(0);
+    expect(adapter.indexOf(multiSortedMap, 'priority', 3)).toBe(19);
+    expect(adapter.indexOf(multiSortedMap, 'priority', 25)).toBe(-1);
+    expect(adapter.update(multiSortedMap, 25, task => task)).toBeUndefined();
+  });
+
+  it('sets existing entries', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 5).map(toEntry));
+
+    adapter.set(multiSortedMap, 1, { title: 'task z', priority: 1, due: 0 });
+
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual([2, 3, 4, 5, 1]);
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'priority'))).toEqual([2, 3, 4, 5, 1]);
+    expect(adapter.getFirst(multiSortedMap, 'due')).toEqual({ title: 'task z', priority: 1, due: 0 });
+  });
+
+  it('sets, updates and removes many entries', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 10).map(toEntry));
+
+    expect(adapter.setMany(multiSortedMap, range(5, 15).map(toEntry).concat([toEntry(15)]))).toEqual({ added: 5, updated: 7, removed: 0 });
+    expect(adapter.updateMany(multiSortedMap, [1, 2, 30], (task, key) => { task.priority = 200 - key; })).toEqual({ added: 0, updated: 2, removed: 0 });
+    expect(adapter.removeMany(multiSortedMap, [3, 4, 30])).toEqual({ added: 0, updated: 0, removed: 2 });
+
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual([1, 2].concat(range(5, 15)));
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'priority'))).toEqual([1, 2].concat(range(5, 15)));
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'due'))).toEqual(sortBy([1, 2].concat(range(5, 15)), task => task.due));
+  });
+
+  it('removes entries from each index', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 20).map(toEntry));
+
+    range(1, 20).filter(i => i % 2 === 0).forEach(i => adapter.remove(multiSortedMap, i));
+    adapter.remove(multiSortedMap, 30);
+
+    const odd = range(1, 20).filter(i => i % 2 === 1);
+
+    expect(adapter.getSize(multiSortedMap)).toBe(10);
+    expect(adapter.has(multiSortedMap, 2)).toBe(false);
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual(odd);
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'priority'))).toEqual(odd);
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'due'))).toEqual(sortBy(odd, task => task.due));
+  });
+
+  it('gets entries by position', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 20).map(toEntry));
+    const byDue = sortBy(range(1, 20), task => task.due);
+
+    expect(adapter.getEntryAt(multiSortedMap, 'due', 0)).toEqual(toEntry(byDue[0]));
+    expect(adapter.getAt(multiSortedMap, 'title', 4)).toEqual(toTask(5));
+    expect(adapter.getAt(multiSortedMap, 'title', 20)).toBeUndefined();
+    expect(adapter.getFirst(multiSortedMap, 'priority')).toEqual(toTask(1));
+    expect(adapter.getLast(multiSortedMap, 'priority')).toEqual(toTask(20));
+    expect(adapter.getLast(adapter.create(), 'priority')).toBeUndefined();
+  });
+
+  it('works with Immer', () => {
+    const adapter = createAdapter();
+    const multiSortedMap = adapter.createFrom(range(1, 20).map(toEntry));
+
+    const next = produce(multiSortedMap, draft => {
+      adapter.set(draft, 21, toTask(21));
+      adapter.update(draft, 1, task => { task.title = 'task zz'; });
+      adapter.remove(draft, 2);
+    });
+
+    expect(Array.from(adapter.getKeysIterable(multiSortedMap, 'title'))).toEqual(range(1, 20));
+    expect(Array.from(adapter.getKeysIterable(next, 'title'))).toEqual(range(3, 21).concat([1]));
+    expect(Array.from(adapter.getKeysIterable(next, 'priority'))).toEqual([1].concat(range(3, 21)));
+    expect(next.indexes.due).not.toBe(multiSortedMap.indexes.due);
+  });
+
+  it('requires an index', () => {
+    expect(() => new MultiSortedMapAdapter<number, Task>({ indexes: {} })).toThrow();
+  });
+});
@@ -0,0 +1,184 @@
+import {HashFunction, IMap, KeyEqualityComparer, MapAdapter} from './map';
+import {IOrderIndexedMap, OrderIndex, OrderIndexDefinition, OrderIndexedMapAdapter} from './orderindexedmap';
+import {ISortedCollection} from './sortedcollection';
+import {IKeyWithOrder} from './sortedmap';
+import {BatchSummary, mapIterable} from './util';
+
+/** A map whose entries are sorted in several ways at once, with one sorted collection of keys per named index. */
+export interface IMultiSortedMap<K, V, I extends string = string> {
+  map: IMap<K, V>;
+  indexes: { [name in I]: ISortedCollection<IKeyWithOrder<K, any>> };
+}
+
+/** Describes how an index of a multi sorted map is sorted. */
+export type SortIndexDefinition<V, O = any> = OrderIndexDefinition<V, O>;
+
+export class MultiSortedMapAdapter<K, V, I extends string = string> {
+  private indexedMapAdapter: OrderIndexedMapAdapter<K, V>;
+  private mapAdapter: MapAdapter<K, V>;
+  private indexNames: I[];
+
+  /**
+   * @param args.indexes The indexes of the map by name, each describing how the values are sorted in that index.
+   * @param args.hash A function which computes a 32 bit integer hash code for a key. Optional (by default, only string
+   *                  and number keys are supported).
+   * @param args.equals A function which tests two keys for equality. Optional (by default uses ===).
+   */
+  constructor(args: {
+    indexes: { [name in I]: SortIndexDefinition<V> },
+    hash?: HashFunction<K>,
+    equals?: KeyEqualityComparer<K>,
+  }) {
+    this.indexNames = Object.keys(args.indexes) as I[];
+
+    if (this.indexNames.length === 0) throw new Error('At least one index must be provided');
+
+    this.indexedMapAdapter = new OrderIndexedMapAdapter<K, V>({
+      indexes: this.indexNames.map(name => args.indexes[name] as SortIndexDefinition<V>),
+      hash: args.hash,
+      equals: args.equals,
+    });
+    this.mapAdapter = this.indexedMapAdapter.mapAdapter;
+  }
+
+  create(): IMultiSortedMap<K, V, I> {
+    return this.fromIndexedMap(this.indexedMapAdapter.create());
+  }
+
+  /**
+   * Creates a new multi sorted map containing the provided entries. If a key appears more than once, the last entry for
+   * the key is used (as if set had been called for each entry in turn).
+   */
+  createFrom(entries: Array<[K, V]>): IMultiSortedMap<K, V, I> {
+    return this.fromIndexedMap(this.indexedMapAdapter.createFrom(entries));
+  }
+
+  get(multiSortedMap: IMultiSortedMap<K, V, I>, key: K): V|undefined {
+    return this.mapAdapter.get(multiSortedMap.map, key);
+  }
+
+  has(multiSortedMap: IMultiSortedMap<K, V, I>, key: K): boolean {
+    return this.mapAdapter.has(multiSortedMap.map, key);
+  }
+
+  getSize(multiSortedMap: IMultiSortedMap<K, V, I>): number {
+    return this.mapAdapter.getSize(multiSortedMap.map);
+  }
+
+  /** Stores the value, placing it in each of the indexes. */
+  set(multiSortedMap: IMultiSortedMap<K, V, I>, key: K, value: V): void {
+    this.indexedMapAdapter.set(this.toIndexedMap(multiSortedMap), key, value);
+  }
+
+  /**
+   * Stores each of the entries, as if set were called for each entry in turn. Keys which are new to the map are added
+   * to the map and to each of the indexes in one batch each.
+   */
+  setMany(multiSortedMap: IMultiSortedMap<K, V, I>, entries: Iterable<[K, V]>): BatchSummary {
+    return this.indexedMapAdapter.setMany(this.toIndexedMap(multiSortedMap), entries);
+  }
+
+  /**
+   * Updates the value using an updater function, which may mutate the value or return a new one. The value is moved
+   * within each index whose ordering key changed.
+   */
+  update(multiSortedMap: IMultiSortedMap<K, V, I>, key: K, updater: (item: V) => V|void): V|undefined {
+    return this.indexedMapAdapter.update(this.toIndexedMap(multiSortedMap), key, updater);
+  }
+
+  /**
+   * Updates the value of each of the keys using an updater function, which also receives the key. Keys which don't
+   * exist are ignored. The values are updated in one batch, and then the entries whose ordering keys changed are moved
+   * within each index in one batch.
+   */
+  updateMany(multiSortedMap: IMultiSortedMap<K, V, I>, keys: Iterable<K>, updater: (item: V, key: K) => V|void): BatchSummary {
+    return this.indexedMapAdapter.updateMany(this.toIndexedMap(multiSortedMap), keys, updater);
+  }
+
+  /** Removes the value from the map and each of the indexes. */
+  remove(multiSortedMap: IMultiSortedMap<K, V, I>, key: K): void {
+    this.indexedMapAdapter.remove(this.toIndexedMap(multiSortedMap), key);
+  }
+
+  /** Removes each of the keys. Keys which don't exist are ignored. */
+  removeMany(multiSortedMap: IMultiSortedMap<K, V, I>, keys: Iterable<K>): BatchSummary {
+    return this.indexedMapAdapter.removeMany(this.toIndexedMap(multiSortedMap), keys);
+  }
+
+  /** Iterates through the entries in the order of the index. */
+  getIterable(multiSortedMap: IMultiSortedMap<K, V, I>, index: I, direction: 'forward'|'backward' = 'forward'): Iterable<[K, V]> {
+    return mapIterable(this.getKeysIterable(multiSortedMap, index, direction), (key) => {
+      return [ key, this.mapAdapter.get(multiSortedMap.map, key)! ] as [K, V];
+    });
+  }
+
+  /** Iterates through the values in the order of the index. */
+  getValuesIterable(multiSortedMap: IMultiSortedMap<K, V, I>, index: I, direction: 'forward'|'backward' = 'forward'): Iterable<V> {
+    return mapIterable(this.getKeysIterable(multiSortedMap, index, direction), (key) => {
+      return this.mapAdapter.get(multiSortedMap.map, key)!;
+    });
+  }
+
+  /** Iterates through the keys in the order of the index. */
+  getKeysIterable(multiSortedMap: IMultiSortedMap<K, V, I>, index: I, direction: 'forward'|'backward' = 'forward'): Iterable<K> {
+    const {sortedCollectionAdapter} = this.getIndex(index);
+
+    return mapIterable(sortedCollectionAdapter.getIterable(multiSortedMap.indexes[index], direction), (item) => item.key);
+  }
+
+  /** Gets the first value in the order of the index. */
+  getFirst(multiSortedMap: IMultiSortedMap<K, V, I>, index: I): V|undefined {
+    return this.getAt(multiSortedMap, index, 0);
+  }
+
+  /** Gets the last value in the order of the index. */
+  getLast(multiSortedMap: IMultiSortedMap<K, V, I>, index: I): V|undefined {
+    return this.getAt(multiSortedMap, index, this.getSize(multiSortedMap) - 1);
+  }
+
+  /** Gets the value at the position in the order of the index. If the position is out of range, undefined is returned. */
+  getAt(multiSortedMap: IMultiSortedMap<K, V, I>, index: I, position: number): V|undefined {
+    const entry = this.getEntryAt(multiSortedMap, index, position);
+
+    return entry && entry[1];
+  }
+
+  /**
+   * Gets the key & value at the position in the order of the index. If the position is out of range, undefined is
+   * returned.
+   */
+  getEntryAt(multiSortedMap: IMultiSortedMap<K, V, I>, index: I, position: number): [K, V]|undefined {
+    const {sortedCollectionAdapter} = this.getIndex(index);
+    const keyWithOrder = sortedCollectionAdapter.getAt(multiSortedMap.indexes[index], position);
+    if (keyWithOrder === undefined) return;
+
+    return [keyWithOrder.key, this.mapAdapter.get(multiSortedMap.map, keyWithOrder.key)!];
+  }
+
+  /** Gets the position of the key in the order of the index, or -1 if the key is not in the map. */
+  indexOf(multiSortedMap: IMultiSortedMap<K, V, I>, index: I, key: K): number {
+    return this.indexedMapAdapter.indexOf(this.toIndexedMap(multiSortedMap), this.getIndexPosition(index), key);
+  }
+
+  private toIndexedMap(multiSortedMap: IMultiSortedMap<K, V, I>): IOrderIndexedMap<K, V> {
+    return { map: multiSortedMap.map, collections: this.indexNames.map(name => multiSortedMap.indexes[name]) };
+  }
+
+  private fromIndexedMap({map, collections}: IOrderIndexedMap<K, V>): IMultiSortedMap<K, V, I> {
+    const indexes = {} as IMultiSortedMap<K, V, I>['indexes'];
+    this.indexNames.forEach((name, i) => indexes[name] = collections[i]);
+
+    return { map, indexes };
+  }
+
+  private getIndex(index: I): OrderIndex<K, V> {
+    return this.indexedMapAdapter.indexes[this.getIndexPosition(index)];
+  }
+
+  private getIndexPosition(index: I): number {
+    const position = this.indexNames.indexOf(index);
+    if (position === -1) throw new Error(`Unknown index ${index}`);
+
+    return position;
+  }
+}
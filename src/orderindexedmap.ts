@@ -0,0 +1,280 @@
+import {HashFunction, IMap, KeyEqualityComparer, MapAdapter} from './map';
+import {Comparer, ISortedCollection, SortedCollectionAdapter} from './sortedcollection';
+import {GetOrderingKey, IKeyWithOrder} from './sortedmap';
+import {BatchSummary, createBatchSummary} from './util';
+
+/**
+ * A map along with one or more sorted collections of its keys, each ordered by an ordering key of the values. This is
+ * the shared state of SortedMapAdapter and MultiSortedMapAdapter, which each lay it out in their own way.
+ */
+export interface IOrderIndexedMap<K, V> {
+  map: IMap<K, V>;
+  collections: Array<ISortedCollection<IKeyWithOrder<K, any>>>;
+}
+
+/** Describes how one of the sorted collections of an order indexed map is sorted. */
+export interface OrderIndexDefinition<V, O = any> {
+  /** Gets the key used to sort a value. */
+  getOrderingKey: GetOrderingKey<V, O>;
+  /** Compares two ordering keys. Optional (by default uses < and >). */
+  orderComparer?: Comparer<O>;
+}
+
+export interface OrderIndex<K, V> {
+  getOrderingKey: GetOrderingKey<V, any>;
+  /** Compares two ordering keys (the orderComparer of the definition, or < and > by default). */
+  orderComparer: Comparer<any>;
+  sortedCollectionAdapter: SortedCollectionAdapter<IKeyWithOrder<K, any>>;
+}
+
+/** Keeps the sorted collections of an order indexed map in sync with its map as entries are stored and removed. */
+export class OrderIndexedMapAdapter<K, V> {
+  readonly mapAdapter: MapAdapter<K, V>;
+  /** The indexes, in the same order as the collections of the order indexed map. */
+  readonly indexes: Array<OrderIndex<K, V>>;
+
+  /**
+   * @param args.indexes Describes how each of the sorted collections is sorted.
+   * @param args.hash A function which computes a 32 bit integer hash code for a key. Optional (by default, only string
+   *                  and number keys are supported).
+   * @param args.equals A function which tests two keys for equality. Optional (by default uses ===).
+   */
+  constructor(args: {
+    indexes: Array<OrderIndexDefinition<V>>,
+    hash?: HashFunction<K>,
+    equals?: KeyEqualityComparer<K>,
+  }) {
+    this.mapAdapter = new MapAdapter<K, V>({ hash: args.hash, equals: args.equals });
+
+    // The sorted collections find keys in the same way as the map, so the defaults are taken from it.
+    const {equals, hashKey} = this.mapAdapter;
+
+    this.indexes = args.indexes.map(definition => {
+      const orderComparer: Comparer<any> = definition.orderComparer || ((a, b) => a < b ? -1 : a > b ? 1 : 0);
+
+      return {
+        getOrderingKey: definition.getOrderingKey,
+        orderComparer,
+        sortedCollectionAdapter: new SortedCollectionAdapter<IKeyWithOrder<K, any>>({
+          equalityComparer: (a, b) => equals(a.key, b.key),
+          hash: (a) => hashKey(a.key),
+          orderComparer: (a, b) => orderComparer(a.order, b.order),
+        }),
+      };
+    });
+  }
+
+  create(): IOrderIndexedMap<K, V> {
+    return {
+      map: this.mapAdapter.create(),
+      collections: this.indexes.map(({sortedCollectionAdapter}) => sortedCollectionAdapter.create()),
+    };
+  }
+
+  /**
+   * Creates a new order indexed map containing the provided entries. If a key appears more than once, the last entry
+   * for the key is used (as if set had been called for each entry in turn).
+   *
+   * @param options.presorted Set to true if the entries are already in sorted order, so sorting them can be skipped.
+   */
+  createFrom(entries: Array<[K, V]>, options: { presorted?: boolean } = {}): IOrderIndexedMap<K, V> {
+    const map = this.mapAdapter.create();
+    const keptEntries: Array<[K, V]> = [];
+
+    // Walk backwards so the last entry for each key is the one which is kept.
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const [key, value] = entries[i];
+      if (this.mapAdapter.has(map, key)) continue;
+
+      this.mapAdapter.set(map, key, value);
+      keptEntries.push([key, value]);
+    }
+
+    keptEntries.reverse();
+
+    return {
+      map,
+      collections: this.indexes.map(({getOrderingKey, sortedCollectionAdapter}) => sortedCollectionAdapter.createFrom(
+        keptEntries.map(([key, value]) => ({ key, order: getOrderingKey(value) })),
+        options,
+      )),
+    };
+  }
+
+  /** Stores the value, placing it in each of the sorted collections. */
+  set(indexedMap: IOrderIndexedMap<K, V>, key: K, value: V): void {
+    if (this.mapAdapter.has(indexedMap.map, key)) {
+      this.update(indexedMap, key, () => value);
+      return;
+    }
+
+    this.indexes.forEach(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      sortedCollectionAdapter.insert(indexedMap.collections[i], { key, order: getOrderingKey(value) });
+    });
+
+    this.mapAdapter.set(indexedMap.map, key, value);
+  }
+
+  /**
+   * Stores each of the entries, as if set were called for each entry in turn. Keys which are new to the map are added
+   * to the map and to each of the sorted collections in one batch each.
+   */
+  setMany(indexedMap: IOrderIndexedMap<K, V>, entries: Iterable<[K, V]>): BatchSummary {
+    const summary = createBatchSummary();
+    // Holds the keys being added, so repeated entries for a new key are only added once (with the last value).
+    const added = this.mapAdapter.create();
+
+    for (const [key, value] of entries) {
+      if (this.mapAdapter.has(indexedMap.map, key)) {
+        this.update(indexedMap, key, () => value);
+        summary.updated++;
+      } else {
+        if (this.mapAdapter.has(added, key)) {
+          summary.updated++;
+        } else {
+          summary.added++;
+        }
+
+        this.mapAdapter.set(added, key, value);
+      }
+    }
+
+    const addedEntries = Array.from(this.mapAdapter.getIterable(added));
+
+    this.mapAdapter.setMany(indexedMap.map, addedEntries);
+    this.indexes.forEach(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      sortedCollectionAdapter.insertMany(
+        indexedMap.collections[i],
+        addedEntries.map(([key, value]) => ({ key, order: getOrderingKey(value) })),
+      );
+    });
+
+    return summary;
+  }
+
+  /**
+   * Updates the value using an updater function, which may mutate the value or return a new one. The value is moved
+   * within each sorted collection whose ordering key changed.
+   */
+  update(indexedMap: IOrderIndexedMap<K, V>, key: K, updater: (item: V) => V|void): V|undefined {
+    const existing = this.mapAdapter.get(indexedMap.map, key);
+    if (existing === undefined) return;
+
+    // The values are found in each sorted collection before the updater is called, as it may mutate their ordering keys.
+    const existingSorted = this.indexes.map(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      const nodeInfo = sortedCollectionAdapter.lookupValuePath(
+        indexedMap.collections[i],
+        { key, order: getOrderingKey(existing) },
+      );
+
+      if (nodeInfo === undefined) {
+        throw new Error(`Key ${key} not found in sorted collection`);
+      }
+
+      return nodeInfo;
+    });
+
+    const updated = updater(existing) as V|undefined;
+
+    if (updated !== undefined) {
+      this.mapAdapter.set(indexedMap.map, key, updated);
+    }
+
+    const updatedOrExisting = updated === undefined ? existing : updated;
+
+    this.indexes.forEach(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      const updatedOrderingKey = getOrderingKey(updatedOrExisting);
+
+      if (existingSorted[i].valueNode.value.order !== updatedOrderingKey) {
+        existingSorted[i].valueNode.value.order = updatedOrderingKey;
+        sortedCollectionAdapter.ensureSortedOrderOfNode(indexedMap.collections[i], existingSorted[i]);
+      }
+    });
+
+    return updatedOrExisting;
+  }
+
+  /**
+   * Updates the value of each of the keys using an updater function, which also receives the key. Keys which don't
+   * exist are ignored, and repeated keys are only updated once (as with removeMany). The values are updated in one
+   * batch, and then the entries whose ordering keys changed are moved within each sorted collection in one batch.
+   */
+  updateMany(indexedMap: IOrderIndexedMap<K, V>, keys: Iterable<K>, updater: (item: V, key: K) => V|void): BatchSummary {
+    // Holds the keys being updated, so repeated keys are only updated (and have their ordering keys recorded) once.
+    const seen = this.mapAdapter.create();
+    const previousOrders: Array<{ key: K, orders: any[] }> = [];
+
+    for (const key of keys) {
+      const existing = this.mapAdapter.get(indexedMap.map, key);
+      if (existing === undefined || this.mapAdapter.has(seen, key)) continue;
+
+      this.mapAdapter.set(seen, key, existing);
+      previousOrders.push({ key, orders: this.indexes.map(({getOrderingKey}) => getOrderingKey(existing)) });
+    }
+
+    const summary = this.mapAdapter.updateMany(indexedMap.map, previousOrders.map(({key}) => key), updater);
+
+    this.indexes.forEach(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      const moved = previousOrders
+        .map(({key, orders}) => ({
+          previous: { key, order: orders[i] },
+          next: { key, order: getOrderingKey(this.mapAdapter.get(indexedMap.map, key)!) },
+        }))
+        .filter(({previous, next}) => previous.order !== next.order);
+
+      if (moved.length > 0) {
+        sortedCollectionAdapter.removeMany(indexedMap.collections[i], moved.map(({previous}) => previous));
+        sortedCollectionAdapter.insertMany(indexedMap.collections[i], moved.map(({next}) => next));
+      }
+    });
+
+    return summary;
+  }
+
+  /** Removes the value from the map and each of the sorted collections. */
+  remove(indexedMap: IOrderIndexedMap<K, V>, key: K): void {
+    const existing = this.mapAdapter.get(indexedMap.map, key);
+    if (existing === undefined) return;
+
+    this.indexes.forEach(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      sortedCollectionAdapter.remove(indexedMap.collections[i], { key, order: getOrderingKey(existing) });
+    });
+
+    this.mapAdapter.remove(indexedMap.map, key);
+  }
+
+  /**
+   * Removes each of the keys. Keys which don't exist are ignored. The keys are removed from the map and each of the
+   * sorted collections in one batch each.
+   */
+  removeMany(indexedMap: IOrderIndexedMap<K, V>, keys: Iterable<K>): BatchSummary {
+    // Holds the keys being removed, so repeated keys are only removed once.
+    const removed = this.mapAdapter.create();
+
+    for (const key of keys) {
+      const existing = this.mapAdapter.get(indexedMap.map, key);
+      if (existing !== undefined) this.mapAdapter.set(removed, key, existing);
+    }
+
+    const removedEntries = Array.from(this.mapAdapter.getIterable(removed));
+
+    this.indexes.forEach(({getOrderingKey, sortedCollectionAdapter}, i) => {
+      sortedCollectionAdapter.removeMany(
+        indexedMap.collections[i],
+        removedEntries.map(([key, value]) => ({ key, order: getOrderingKey(value) })),
+      );
+    });
+
+    return this.mapAdapter.removeMany(indexedMap.map, removedEntries.map(([key]) => key));
+  }
+
+  /** Gets the position of the key in the sorted collection at the index, or -1 if the key is not in the map. */
+  indexOf(indexedMap: IOrderIndexedMap<K, V>, index: number, key: K): number {
+    const existing = this.mapAdapter.get(indexedMap.map, key);
+    if (existing === undefined) return -1;
+
+    const {getOrderingKey, sortedCollectionAdapter} = this.indexes[index];
+
+    return sortedCollectionAdapter.indexOf(indexedMap.collections[index], { key, order: getOrderingKey(existing) });
+  }
+}
@@ -0,0 +1,96 @@
+import produce from 'immer';
+import {EntityState} from './entityadapter';
+import {createRtkEntityAdapter, PayloadAction} from './rtkentityadapter';
+
+interface Book {
+  id: string;
+  title: string;
+}
+
+const book = (id: string, title = `title ${id}`): Book => ({ id, title });
+const action = <P>(payload: P): PayloadAction<P> => ({ type: 'books/action', payload });
+
+describe('Redux Toolkit entity adapter', () => {
+  const adapter = createRtkEntityAdapter<Book, string>({ sortComparer: (a, b) => a.title.localeCompare(b.title) });
+  const {selectAll, selectById, selectIds, selectTotal} = adapter.getSelectors();
+
+  it('gets the initial state', () => {
+    const state = adapter.getInitialState({ loading: false }, { b: book('b'), a: book('a') });
+
+    expect(state.loading).toBe(false);
+    expect(selectAll(state)).toEqual([book('a'), book('b')]);
+    expect(selectTotal(adapter.getInitialState())).toBe(0);
+  });
+
+  it('accepts entities or actions', () => {
+    const state = produce(adapter.getInitialState(), draft => {
+      adapter.addOne(draft, book('c'));
+      adapter.addOne(draft, action(book('b')));
+      adapter.addMany(draft, action([book('a'), book('b', 'ignored')]));
+      adapter.addMany(draft, { d: book('d') });
+    });
+
+    expect(selectIds(state)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('sets, updates, upserts and removes entities', () => {
+    const initialState = adapter.getInitialState({}, [book('a'), book('b'), book('c'), book('d')]);
+
+    const state = produce(initialState, draft => {
+      adapter.setOne(draft, book('a', 'title z'));
+      adapter.setMany(draft, action([book('e')]));
+      adapter.updateOne(draft, action({ id: 'b', changes: { title: 'title y' } }));
+      adapter.updateMany(draft, [{ id: 'c', changes: { title: 'title x' } }]);
+      adapter.upsertOne(draft, { id: 'd', title: 'title w' });
+      adapter.upsertMany(draft, action({ f: book('f') }));
+      adapter.removeOne(draft, action('e'));
+      adapter.removeMany(draft, ['f', 'g']);
+    });
+
+    expect(selectAll(state)).toEqual([book('d', 'title w'), book('c', 'title x'), book('b', 'title y'), book('a', 'title z')]);
+    expect(selectById(state, 'a')).toEqual(book('a', 'title z'));
+    expect(selectById(state, 'e')).toBeUndefined();
+
+    const replaced = produce(state, draft => { adapter.setAll(draft, action([book('h')])); });
+    const emptied = produce(state, draft => { adapter.removeAll(draft); });
+
+    expect(selectAll(replaced)).toEqual([book('h')]);
+    expect(selectTotal(emptied)).toBe(0);
+  });
+
+  it('works as case reducers', () => {
+    interface BooksState extends EntityState<Book, string> {
+      loading: boolean;
+    }
+
+    // A minimal version of Redux Toolkit's createSlice, which passes each case reducer a draft of the state.
+    const caseReducers = {
+      bookAdded: adapter.addOne,
+      booksReceived: (state: BooksState, receivedAction: PayloadAction<Book[]>) => {
+        state.loading = false;
+        adapter.setAll(state, receivedAction.payload);
+      },
+      bookRemoved: adapter.removeOne,
+    };
+    const reducer = (state: BooksState, dispatched: { type: keyof typeof caseReducers, payload: any }) =>
+      produce(state, draft => { caseReducers[dispatched.type](draft as BooksState, dispatched); });
+
+    let state: BooksState = adapter.getInitialState({ loading: true });
+    state = reducer(state, { type: 'booksReceived', payload: [book('a'), book('b')] });
+    state = reducer(state, { type: 'bookAdded', payload: book('c') });
+    state = reducer(state, { type: 'bookRemoved', payload: 'a' });
+
+    expect(state.loading).toBe(false);
+    expect(selectIds(state)).toEqual(['b', 'c']);
+  });
+
+  it('selects from a larger state', () => {
+    const unsortedAdapter = createRtkEntityAdapter<{ isbn: number, title: string }, number>({ selectId: b => b.isbn });
+    const rootState = { books: unsortedAdapter.getInitialState({}, [{ isbn: 1, title: 'one' }]) };
+    const selectors = unsortedAdapter.getSelectors((state: typeof rootState) => state.books);
+
+    expect(unsortedAdapter.sortComparer).toBe(false);
+    expect(selectors.selectById(rootState, 1)).toEqual({ isbn: 1, title: 'one' });
+    expect(selectors.selectEntities(rootState)).toEqual({ 1: { isbn: 1, title: 'one' } });
+  });
+});
@@ -0,0 +1,105 @@
+import {EntityAdapter, EntitySelectors, EntityState, IdSelector, Update} from './entityadapter';
+import {Comparer} from './sortedcollection';
+import {Key} from './sortedmap';
+
+/** An action with a payload, as created by Redux Toolkit's action creators. */
+export interface PayloadAction<P> {
+  type: string;
+  payload: P;
+}
+
+/** The entities passed to addMany, setMany, upsertMany and setAll: an array, or an object by id. */
+export type EntitiesArg<T, Id extends Key = Key> = ReadonlyArray<T> | { [id in Id]?: T };
+
+/**
+ * The same methods as the EntityAdapter of Redux Toolkit, which store entities in an Immerutable IMap or ISortedMap.
+ * Each method takes the state followed by its argument (or an action with the argument as its payload), so the
+ * methods may be used as case reducers. The state is modified in place and then returned.
+ *
+ * Unlike Redux Toolkit's adapter, the methods only work on Immer drafts (as in the reducers of createSlice and
+ * createReducer). Plain state isn't wrapped with produce, so frozen state can't be modified, and other state is
+ * modified rather than copied.
+ */
+export interface RtkEntityAdapter<T, Id extends Key = Key> {
+  selectId: IdSelector<T, Id>;
+  sortComparer: false | Comparer<T>;
+
+  getInitialState(): EntityState<T, Id>;
+  getInitialState<S extends object>(state: S, entities?: EntitiesArg<T, Id>): EntityState<T, Id> & S;
+
+  addOne<S extends EntityState<T, Id>>(state: S, entity: T | PayloadAction<T>): S;
+  addMany<S extends EntityState<T, Id>>(state: S, entities: EntitiesArg<T, Id> | PayloadAction<EntitiesArg<T, Id>>): S;
+  setOne<S extends EntityState<T, Id>>(state: S, entity: T | PayloadAction<T>): S;
+  setMany<S extends EntityState<T, Id>>(state: S, entities: EntitiesArg<T, Id> | PayloadAction<EntitiesArg<T, Id>>): S;
+  setAll<S extends EntityState<T, Id>>(state: S, entities: EntitiesArg<T, Id> | PayloadAction<EntitiesArg<T, Id>>): S;
+  removeOne<S extends EntityState<T, Id>>(state: S, id: Id | PayloadAction<Id>): S;
+  removeMany<S extends EntityState<T, Id>>(state: S, ids: ReadonlyArray<Id> | PayloadAction<ReadonlyArray<Id>>): S;
+  removeAll<S extends EntityState<T, Id>>(state: S): S;
+  updateOne<S extends EntityState<T, Id>>(state: S, update: Update<T, Id> | PayloadAction<Update<T, Id>>): S;
+  updateMany<S extends EntityState<T, Id>>(state: S, updates: ReadonlyArray<Update<T, Id>> | PayloadAction<ReadonlyArray<Update<T, Id>>>): S;
+  upsertOne<S extends EntityState<T, Id>>(state: S, entity: T | PayloadAction<T>): S;
+  upsertMany<S extends EntityState<T, Id>>(state: S, entities: EntitiesArg<T, Id> | PayloadAction<EntitiesArg<T, Id>>): S;
+
+  /**
+   * Gets selectors for the ids, entities (as an object by id), array of entities, number of entities, and an entity by
+   * id. Each selector recomputes its result only when the entities change.
+   * @param selectState Selects the entity state from a larger state (such as the root state of the store). Optional.
+   */
+  getSelectors(): EntitySelectors<T, EntityState<T, Id>, Id>;
+  getSelectors<V>(selectState: (state: V) => EntityState<T, Id>): EntitySelectors<T, V, Id>;
+}
+
+/**
+ * Creates an adapter with the same methods as the EntityAdapter of Redux Toolkit, in the same way as its
+ * createEntityAdapter. The methods don't depend on this, so they may be passed around (for instance, as case reducers).
+ * @param options.selectId Gets the id of an entity. Optional (by default uses entity.id).
+ * @param options.sortComparer Compares two entities, to keep them in sorted order (in an ISortedMap). Optional (by
+ *                             default the entities are stored in an IMap, which isn't ordered).
+ */
+export function createRtkEntityAdapter<T, Id extends Key = Key>(
+  options: { selectId?: IdSelector<T, Id>, sortComparer?: false | Comparer<T> } = {},
+): RtkEntityAdapter<T, Id> {
+  const entityAdapter = new EntityAdapter<T, Id>(options);
+
+  return {
+    selectId: entityAdapter.selectId,
+    sortComparer: entityAdapter.sortComparer,
+    getInitialState: (state: object = {}, entities?: EntitiesArg<T, Id>) => {
+      const initialState = entityAdapter.getInitialState(state);
+
+      return entities === undefined ? initialState : entityAdapter.setAll(toEntityArray(entities), initialState);
+    },
+    addOne: (state, entity) => entityAdapter.addOne(getPayload(entity), state),
+    addMany: (state, entities) => entityAdapter.addMany(toEntityArray(getPayload(entities)), state),
+    setOne: (state, entity) => entityAdapter.setOne(getPayload(entity), state),
+    setMany: (state, entities) => entityAdapter.setMany(toEntityArray(getPayload(entities)), state),
+    setAll: (state, entities) => entityAdapter.setAll(toEntityArray(getPayload(entities)), state),
+    removeOne: (state, id) => entityAdapter.removeOne(getPayload(id), state),
+    removeMany: (state, ids) => entityAdapter.removeMany(getPayload(ids).slice(), state),
+    removeAll: (state) => entityAdapter.removeAll(state),
+    updateOne: (state, update) => entityAdapter.updateOne(getPayload(update), state),
+    updateMany: (state, updates) => entityAdapter.updateMany(getPayload(updates).slice(), state),
+    upsertOne: (state, entity) => entityAdapter.upsertOne(getPayload(entity), state),
+    upsertMany: (state, entities) => entityAdapter.upsertMany(toEntityArray(getPayload(entities)), state),
+    getSelectors: (selectState?: (state: any) => EntityState<T, Id>) => selectState ?
+      entityAdapter.getSelectors(selectState) :
+      entityAdapter.getSelectors(),
+  };
+}
+
+function getPayload<P>(arg: P | PayloadAction<P>): P {
+  return isPayloadAction(arg) ? arg.payload : arg;
+}
+
+// Arguments are treated as actions in the same way as Redux Toolkit: when they have a string type and a payload.
+function isPayloadAction<P>(arg: P | PayloadAction<P>): arg is PayloadAction<P> {
+  return typeof arg === 'object' && arg !== null && 'type' in arg && typeof arg.type === 'string' && 'payload' in arg;
+}
+
+function toEntityArray<T, Id extends Key>(entities: EntitiesArg<T, Id>): T[] {
+  if (Array.isArray(entities)) return entities.slice();
+
+  const byId = entities as { [id: string]: T|undefined };
+
+  return Object.keys(byId).map(id => byId[id]!);
+}
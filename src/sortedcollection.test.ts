@@ -1,4 +1,5 @@
-import {SortedCollectionAdapter} from './sortedcollection';
+import produce, {setAutoFreeze} from 'immer';
+import {IBTreeNode, SortedCollectionAdapter, SortedCollectionChange} from './sortedcollection';
 
 interface TestObject {
   key: string;
@@ -9,6 +10,51 @@ describe('B-tree', () => {
   const orderComparer = (a: number, b: number) => a - b;
   const objOrderComparer = (a: TestObject, b: TestObject) => a.order - b.order;
   const range = (start: number, end: number) => new Array(end - start + 1).join().split(',').map((empty, i) => i + start);
+  const countValues = (node: IBTreeNode<any>): number => {
+    const count = node.items.length + (node.children || []).reduce((sum, child) => sum + countValues(child), 0);
+    expect(node.count).toBe(count);
+
+    return count;
+  };
+  // Leaves split off while inserting at either end of the tree may hold fewer than the minimum number of items, so
+  // leaf sizes are only checked against the minimum when requested.
+  const expectValidBTree = (node: IBTreeNode<any>, maxItemsPerLevel: number, checkLeafMinimum: boolean) => {
+    const minItemsPerLevel = maxItemsPerLevel / 2;
+    const leafDepths: number[] = [];
+
+    const visit = (curr: IBTreeNode<any>, depth: number) => {
+      if (curr.children === undefined) {
+        if (!curr.isRoot && checkLeafMinimum) expect(curr.items.length).toBeGreaterThanOrEqual(minItemsPerLevel);
+        expect(curr.items.length).toBeLessThanOrEqual(maxItemsPerLevel);
+        leafDepths.push(depth);
+      } else {
+        if (!curr.isRoot) expect(curr.children.length).toBeGreaterThanOrEqual(minItemsPerLevel);
+        expect(curr.children.length).toBeLessThanOrEqual(maxItemsPerLevel);
+        expect(curr.items.length).toBe(curr.children.length - 1);
+        curr.children.forEach(child => visit(child, depth + 1));
+      }
+    };
+
+    visit(node, 0);
+    countValues(node);
+    expect(leafDepths.every(leafDepth => leafDepth === leafDepths[0])).toBe(true);
+  };
+
+  // Replays the changes reported by diff against the previous values, producing the next values.
+  const applyChanges = <T>(prevValues: T[], changes: Array<SortedCollectionChange<T>>): T[] => {
+    const removedIndexes = changes.map(change => change.type === 'remove' ? change.index : change.type === 'move' ? change.fromIndex : -1);
+    const remaining = prevValues.filter((value, index) => removedIndexes.indexOf(index) === -1);
+    const placed: T[] = [];
+
+    changes.forEach(change => {
+      if (change.type === 'insert') placed[change.index] = change.value;
+      if (change.type === 'move') placed[change.toIndex] = change.value;
+    });
+
+    const length = remaining.length + changes.filter(change => change.type !== 'remove').length;
+
+    return new Array(length).join().split(',').map((empty, index) => index in placed ? placed[index] : remaining.shift()!);
+  };
 
   it('creates a sorted list', () => {
     const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
@@ -358,6 +404,26 @@ describe('B-tree', () => {
     )
   });
 
+  it('updates all items in order', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 30).map(i => ({ key: i.toString(), order: i * 10 })));
+    const indexes: number[] = [];
+
+    const next = produce(btree, draft => {
+      adapter.updateAllInOrder(draft, (item, index) => {
+        indexes.push(index);
+        if (index % 2 === 0) return { key: item.key, order: index };
+        item.order = index;
+        return undefined;
+      });
+    });
+
+    expect(indexes).toEqual(range(0, 29));
+    expect(Array.from(adapter.getIterable(next))).toEqual(range(1, 30).map((i, index) => ({ key: i.toString(), order: index })));
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 30).map(i => ({ key: i.toString(), order: i * 10 })));
+    expectValidBTree(next.root, 4, false);
+  });
+
   it('reorders the first item', () => {
     const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, maxItemsPerLevel: 4 });
     const btree = adapter.create();
@@ -466,4 +532,681 @@ describe('B-tree', () => {
 
     expect(Array.from(iterable).length).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+
+  it('gets items by index', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+
+    for (let i = 0; i < 100; i++) {
+      adapter.insert(btree, (i * 37) % 100);
+    }
+
+    countValues(btree.root);
+
+    for (let i = 0; i < 100; i++) {
+      expect(adapter.getAt(btree, i)).toBe(i);
+    }
+
+    expect(adapter.getAt(btree, -1)).toBeUndefined();
+    expect(adapter.getAt(btree, 100)).toBeUndefined();
+  });
+
+  it('gets the index of items', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+
+    for (let i = 100; i > 0; i--) {
+      adapter.insert(btree, i);
+    }
+
+    for (let i = 1; i <= 100; i++) {
+      expect(adapter.indexOf(btree, i)).toBe(i - 1);
+    }
+
+    expect(adapter.indexOf(btree, 101)).toBe(-1);
+  });
+
+  it('gets the index of items sharing the same order key', () => {
+    const adapter = new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      maxItemsPerLevel: 4,
+    });
+    const btree = adapter.create();
+    const items = range(1, 30).map(i => ({ key: i.toString(), order: Math.floor(i / 10) }));
+
+    items.forEach(item => adapter.insert(btree, item));
+
+    items.forEach((item, i) => {
+      expect(adapter.indexOf(btree, item)).toBe(i);
+      expect(adapter.getAt(btree, i)).toBe(item);
+    });
+  });
+
+  it('keeps subtree counts consistent while removing items', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+    const removalOrder = [10, 11, 9, 12, 8, 13, 7, 14, 6, 15, 5, 16, 4, 17, 3, 18, 2, 19, 1, 20];
+
+    for (let i = 1; i <= 20; i++) {
+      adapter.insert(btree, i);
+    }
+
+    for (let i = 0; i < 20; i++) {
+      adapter.remove(btree, removalOrder[i]);
+
+      const remaining = removalOrder.slice(i + 1).sort((a, b) => a - b);
+      expect(countValues(btree.root)).toBe(remaining.length);
+      remaining.forEach((value, index) => {
+        expect(adapter.getAt(btree, index)).toBe(value);
+        expect(adapter.indexOf(btree, value)).toBe(index);
+      });
+    }
+  });
+
+  it('keeps subtree counts consistent when reordering items', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+    const items: TestObject[] = [];
+
+    for (let i = 1; i <= 20; i++) {
+      items.push({ key: i.toString(), order: i });
+      adapter.insert(btree, items[items.length - 1]);
+    }
+
+    adapter.update(btree, items[4], (item) => { item.order = 30; });
+
+    countValues(btree.root);
+    expect(adapter.indexOf(btree, items[4])).toBe(19);
+    expect(adapter.getAt(btree, 4)).toBe(items[5]);
+  });
+
+  it('keeps subtree counts consistent within Immer drafts', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    let state = { btree: adapter.create() };
+
+    for (let i = 1; i <= 50; i++) {
+      state = produce(state, (draft: typeof state) => {
+        adapter.insert(draft.btree, (i * 7) % 51);
+      });
+    }
+
+    for (let i = 1; i <= 50; i += 3) {
+      state = produce(state, (draft: typeof state) => {
+        adapter.remove(draft.btree, i);
+      });
+    }
+
+    const expected = range(1, 50).filter(i => (i - 1) % 3 !== 0).sort(orderComparer);
+
+    expect(countValues(state.btree.root)).toBe(expected.length);
+    expected.forEach((value, index) => {
+      expect(adapter.getAt(state.btree, index)).toBe(value);
+      expect(adapter.indexOf(state.btree, value)).toBe(index);
+    });
+  });
+
+  it('iterates ranges', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+    const values: number[] = [];
+
+    for (let i = 0; i < 90; i++) {
+      values.push((i * 7) % 30);
+      adapter.insert(btree, values[values.length - 1]);
+    }
+
+    values.sort(orderComparer);
+
+    for (let from = -1; from <= 31; from += 4) {
+      for (let to = from - 1; to <= 31; to += 3) {
+        [true, false].forEach(fromInclusive => [true, false].forEach(toInclusive => {
+          const expected = values.filter(value =>
+            (fromInclusive ? value >= from : value > from) && (toInclusive ? value <= to : value < to)
+          );
+          const range = { from, to, fromInclusive, toInclusive };
+
+          expect(Array.from(adapter.getRangeIterable(btree, range))).toEqual(expected);
+          expect(Array.from(adapter.getRangeIterable(btree, { ...range, direction: 'backward' }))).toEqual(expected.slice().reverse());
+          expect(adapter.countRange(btree, range)).toBe(expected.length);
+        }));
+      }
+    }
+  });
+
+  it('iterates open-ended ranges', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+
+    for (let i = 1; i <= 20; i++) {
+      adapter.insert(btree, i);
+    }
+
+    expect(Array.from(adapter.getRangeIterable(btree, { from: 15 }))).toEqual(range(15, 20));
+    expect(Array.from(adapter.getRangeIterable(btree, { to: 5, direction: 'backward' }))).toEqual(range(1, 5).reverse());
+    expect(Array.from(adapter.getRangeIterable(btree, {}))).toEqual(range(1, 20));
+    expect(adapter.countRange(btree, { from: 15 })).toBe(6);
+    expect(adapter.countRange(btree, { to: 5, toInclusive: false })).toBe(4);
+    expect(adapter.countRange(btree, { from: 10, to: 5 })).toBe(0);
+  });
+
+  it('iterates ranges bounded by values of another type using a bound comparer', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 20).map(i => ({ key: `key ${i}`, order: i })));
+    const byOrder = (item: TestObject, order: number) => item.order - order;
+
+    expect(Array.from(adapter.getRangeIterable(btree, { from: 5, to: 8 }, byOrder)).map(item => item.key))
+      .toEqual(['key 5', 'key 6', 'key 7', 'key 8']);
+    expect(Array.from(adapter.getRangeIterable(btree, { from: 5, to: 8, direction: 'backward' }, byOrder)).map(item => item.key))
+      .toEqual(['key 8', 'key 7', 'key 6', 'key 5']);
+    expect(adapter.countRange(btree, { from: 5, toInclusive: false, to: 8 }, byOrder)).toBe(3);
+  });
+
+  it('iterates ranges of an empty collection', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+
+    expect(Array.from(adapter.getRangeIterable(btree, { from: 1, to: 5 }))).toEqual([]);
+    expect(Array.from(adapter.getRangeIterable(btree, { from: 1, to: 5, direction: 'backward' }))).toEqual([]);
+    expect(adapter.countRange(btree, { from: 1, to: 5 })).toBe(0);
+  });
+
+  it('iterates range iterables multiple times', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+
+    for (let i = 0; i < 20; i++) {
+      adapter.insert(btree, i);
+    }
+
+    const iterable = adapter.getRangeIterable(btree, { from: 5, to: 15 });
+
+    expect(Array.from(iterable)).toEqual(range(5, 15));
+    expect(Array.from(iterable)).toEqual(range(5, 15));
+  });
+
+  it('creates a collection from values', () => {
+    for (let maxItemsPerLevel = 4; maxItemsPerLevel <= 8; maxItemsPerLevel += 2) {
+      const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel });
+
+      expect(adapter.getSize(adapter.createFrom([]))).toBe(0);
+
+      for (let length = 1; length <= 150; length++) {
+        const values = range(1, length).reverse();
+        const btree = adapter.createFrom(values);
+
+        expectValidBTree(btree.root, maxItemsPerLevel, true);
+        expect(btree.root.isRoot).toBe(true);
+        expect(adapter.getSize(btree)).toBe(length);
+        expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, length));
+      }
+    }
+  });
+
+  // A collection as stored by older versions of this library, whose nodes don't have counts.
+  const createLegacyCollection = () => JSON.parse(`{
+    "root": {
+      "isRoot": true,
+      "items": [{ "value": 3 }, { "value": 6 }],
+      "children": [
+        { "items": [{ "value": 1 }, { "value": 2 }] },
+        { "items": [{ "value": 4 }, { "value": 5 }] },
+        { "items": [{ "value": 7 }, { "value": 8 }, { "value": 9 }] }
+      ]
+    },
+    "size": 9
+  }`);
+
+  it('reads collections created by older versions without storing counts', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = createLegacyCollection();
+
+    expect(range(0, 8).map(i => adapter.getAt(btree, i))).toEqual(range(1, 9));
+    expect(adapter.getAt(btree, 9)).toBeUndefined();
+    expect(adapter.indexOf(btree, 7)).toBe(6);
+    expect(adapter.countRange(btree, { from: 2 })).toBe(8);
+    expect(adapter.diff(btree, adapter.createFrom(range(2, 9)))).toEqual([{ type: 'remove', index: 0, value: 1 }]);
+    expect(btree.root.count).toBeUndefined();
+  });
+
+  it('migrates collections created by older versions', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const migrated = adapter.migrate(createLegacyCollection());
+
+    expectValidBTree(migrated.root, 4, true);
+    expect(adapter.migrate(migrated)).toBe(migrated);
+
+    // Collections are also migrated when they're modified.
+    const btree = createLegacyCollection();
+    range(10, 20).forEach(i => adapter.insert(btree, i));
+    adapter.remove(btree, 5);
+
+    expectValidBTree(btree.root, 4, false);
+    expect(range(0, 18).map(i => adapter.getAt(btree, i))).toEqual(range(1, 20).filter(i => i !== 5));
+  });
+
+  it('creates a collection from presorted values', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 50), { presorted: true });
+
+    expectValidBTree(btree.root, 4, true);
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 50));
+    expect(adapter.getAt(btree, 24)).toBe(25);
+  });
+
+  it('does not modify the values passed to createFrom', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const values = [3, 1, 2];
+
+    adapter.createFrom(values);
+
+    expect(values).toEqual([3, 1, 2]);
+  });
+
+  it('inserts and removes items in a created collection', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 40).map(i => i * 2));
+
+    for (let i = 1; i <= 40; i++) {
+      adapter.insert(btree, i * 2 - 1);
+      expectValidBTree(btree.root, 4, false);
+    }
+
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 80));
+
+    for (let i = 1; i <= 80; i += 2) {
+      adapter.remove(btree, i);
+      expectValidBTree(btree.root, 4, false);
+    }
+
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 40).map(i => i * 2));
+  });
+
+  it('inserts many items into collections of different sizes', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+
+    [0, 1, 5, 20, 60].forEach(existingCount => {
+      [1, 3, 10, 50, 200].forEach(insertCount => {
+        const existing = new Array(existingCount).join().split(',').slice(0, existingCount).map((empty, i) => i * 3);
+        const inserted = new Array(insertCount).join().split(',').map((empty, i) => (i * 37) % 250);
+        const btree = adapter.createFrom(existing);
+
+        const summary = adapter.insertMany(btree, inserted);
+
+        expect(summary).toEqual({ added: insertCount, updated: 0, removed: 0 });
+        expect(adapter.getSize(btree)).toBe(existingCount + insertCount);
+        expect(Array.from(adapter.getIterable(btree))).toEqual(existing.concat(inserted).sort(orderComparer));
+        expectValidBTree(btree.root, 4, true);
+      });
+    });
+  });
+
+  it('inserts many items with the same order key', () => {
+    const adapter = new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      maxItemsPerLevel: 4,
+    });
+    const btree = adapter.createFrom(range(1, 20).map(i => ({ key: `existing ${i}`, order: i % 3 })));
+
+    adapter.insertMany(btree, range(1, 20).map(i => ({ key: `inserted ${i}`, order: i % 3 })));
+
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.order)).toEqual(
+      range(1, 20).concat(range(1, 20)).map(i => i % 3).sort(orderComparer),
+    );
+    expectValidBTree(btree.root, 4, true);
+
+    for (let i = 1; i <= 20; i++) {
+      adapter.remove(btree, { key: `existing ${i}`, order: i % 3 });
+    }
+
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.key).sort()).toEqual(range(1, 20).map(i => `inserted ${i}`).sort());
+  });
+
+  it('inserts many presorted items', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.create();
+
+    adapter.insertMany(btree, range(1, 30), { presorted: true });
+    adapter.insertMany(btree, range(31, 60), { presorted: true });
+
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 60));
+    expectValidBTree(btree.root, 4, true);
+  });
+
+  it('only copies the nodes which receive items when inserting many items within Immer drafts', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const initial = { btree: adapter.createFrom(range(1, 100).map(i => i * 2)) };
+
+    const next = produce(initial, (draft: typeof initial) => {
+      adapter.insertMany(draft.btree, [191, 193, 195, 197]);
+    });
+
+    expect(Array.from(adapter.getIterable(next.btree))).toEqual(range(1, 100).map(i => i * 2).concat([191, 193, 195, 197]).sort(orderComparer));
+    expect(Array.from(adapter.getIterable(initial.btree))).toEqual(range(1, 100).map(i => i * 2));
+    expect(next.btree.root.children![0]).toBe(initial.btree.root.children![0]);
+    expectValidBTree(next.btree.root, 4, true);
+  });
+
+  it('removes many items', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 50));
+
+    const summary = adapter.removeMany(btree, range(1, 25).map(i => i * 2).concat([100, 101]));
+
+    expect(summary).toEqual({ added: 0, updated: 0, removed: 25 });
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 25).map(i => i * 2 - 1));
+    expectValidBTree(btree.root, 4, false);
+  });
+
+  it('rejects duplicates in a unique collection', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, unique: 'reject', maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom([5, 3, 5, 1, 3, 3]);
+
+    expect(Array.from(adapter.getIterable(btree))).toEqual([1, 3, 5]);
+    expect(adapter.insert(btree, 2)).toBe(true);
+    expect(adapter.insert(btree, 3)).toBe(false);
+    expect(adapter.insertMany(btree, range(1, 30).concat(range(1, 30)))).toEqual({ added: 26, updated: 0, removed: 0 });
+
+    expect(adapter.getSize(btree)).toBe(30);
+    expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, 30));
+    expectValidBTree(btree.root, 4, false);
+  });
+
+  it('replaces duplicates in a unique collection', () => {
+    const adapter = new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      unique: 'replace',
+      maxItemsPerLevel: 4,
+    });
+    const btree = adapter.createFrom(range(1, 20).map(i => ({ key: `key ${i % 10}`, order: i % 10 })));
+
+    expect(adapter.getSize(btree)).toBe(10);
+    // Values with the same order but a different key aren't duplicates.
+    expect(adapter.insert(btree, { key: 'other 5', order: 5 })).toBe(true);
+    expect(adapter.insert(btree, { key: 'key 5', order: 5, replaced: true } as TestObject)).toBe(false);
+    expect(adapter.insertMany(btree, range(8, 12).map(i => ({ key: `key ${i}`, order: i })))).toEqual({ added: 3, updated: 2, removed: 0 });
+
+    expect(adapter.getSize(btree)).toBe(14);
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.order)).toEqual(range(0, 5).concat(range(5, 12)));
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.key).sort()).toEqual(
+      range(0, 12).map(i => `key ${i}`).concat(['other 5']).sort(),
+    );
+    expect(Array.from(adapter.getIterable(btree)).filter(item => item.key === 'key 5')).toEqual([{ key: 'key 5', order: 5, replaced: true }]);
+    expectValidBTree(btree.root, 4, false);
+  });
+
+  it('keeps the last duplicate when creating a unique collection', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, unique: 'replace' });
+    const btree = adapter.createFrom([{ key: 'a', order: 1 }, { key: 'b', order: 2 }, { key: 'c', order: 1 }]);
+
+    expect(Array.from(adapter.getIterable(btree))).toEqual([{ key: 'c', order: 1 }, { key: 'b', order: 2 }]);
+  });
+
+  it('replaces duplicates in a unique collection within Immer drafts', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, unique: 'replace', maxItemsPerLevel: 4 });
+    const initial = { btree: adapter.createFrom(range(1, 30).map(i => ({ key: `${i}`, order: i }))) };
+
+    const next = produce(initial, (draft: typeof initial) => {
+      adapter.insert(draft.btree, { key: 'replaced', order: 15 });
+    });
+
+    expect(adapter.getAt(next.btree, 14)).toEqual({ key: 'replaced', order: 15 });
+    expect(adapter.getAt(initial.btree, 14)).toEqual({ key: '15', order: 15 });
+    expect(adapter.getSize(next.btree)).toBe(30);
+  });
+
+  it('rejects updates which make a value a duplicate in a unique collection', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, unique: 'reject', maxItemsPerLevel: 4 });
+    const values = [{ key: 'x', order: 1 }, { key: 'y', order: 5 }, { key: 'z', order: 9 }];
+    const btree = adapter.createFrom(values);
+
+    // Moving onto an equal value, and into a duplicate position without moving.
+    expect(() => adapter.update(btree, values[0], (item) => ({ ...item, order: 9 }))).toThrow();
+    expect(() => adapter.update(btree, values[0], (item) => ({ ...item, order: 5 }))).toThrow();
+    expect(Array.from(adapter.getIterable(btree))).toEqual(values);
+    expect(adapter.getSize(btree)).toBe(3);
+
+    adapter.update(btree, values[0], (item) => ({ ...item, order: 7 }));
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.key)).toEqual(['y', 'x', 'z']);
+    expect(adapter.getSize(btree)).toBe(3);
+    expectValidBTree(btree.root, 4, false);
+  });
+
+  it('rejects mutations which make a value a duplicate in a unique collection within Immer drafts', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, unique: 'reject', maxItemsPerLevel: 4 });
+    const initial = { btree: adapter.createFrom(range(1, 30).map(i => ({ key: `${i}`, order: i }))) };
+
+    expect(() => produce(initial, (draft: typeof initial) => {
+      adapter.update(draft.btree, { key: '1', order: 1 }, (item) => { item.order = 15; });
+    })).toThrow();
+    expect(adapter.getSize(initial.btree)).toBe(30);
+    expect(Array.from(adapter.getIterable(initial.btree)).map(item => item.order)).toEqual(range(1, 30));
+  });
+
+  it('replaces duplicates of updated values in a unique collection', () => {
+    [9, 5].forEach(order => {
+      const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, unique: 'replace', maxItemsPerLevel: 4 });
+      const btree = adapter.createFrom([{ key: 'x', order: 1 }, { key: 'y', order: 5 }, { key: 'z', order: 9 }]);
+
+      adapter.update(btree, { key: 'x', order: 1 }, (item) => { item.order = order; });
+
+      expect(Array.from(adapter.getIterable(btree))).toEqual(
+        order === 9 ? [{ key: 'y', order: 5 }, { key: 'x', order: 9 }] : [{ key: 'x', order: 5 }, { key: 'z', order: 9 }],
+      );
+      expect(adapter.getSize(btree)).toBe(2);
+      expectValidBTree(btree.root, 4, false);
+    });
+
+    const adapter = new SortedCollectionAdapter({ orderComparer: objOrderComparer, unique: 'replace', maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 30).map(i => ({ key: `${i}`, order: i })));
+
+    adapter.update(btree, { key: '1', order: 1 }, (item) => ({ key: 'moved', order: 15 }));
+
+    expect(adapter.getSize(btree)).toBe(29);
+    expect(adapter.getAt(btree, 13)).toEqual({ key: 'moved', order: 15 });
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.order)).toEqual(range(2, 30));
+    expectValidBTree(btree.root, 4, false);
+  });
+
+  it('removes many items from collections of different sizes', () => {
+    [4, 6].forEach(maxItemsPerLevel => {
+      const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel });
+
+      [1, 10, 50, 200].forEach(existingCount => {
+        [1, 3, 7].forEach(step => {
+          const btree = adapter.createFrom(range(1, existingCount));
+          const removed = range(1, existingCount).filter(i => i % step === 0 || i % 11 === 0);
+
+          const summary = adapter.removeMany(btree, removed.concat([existingCount + 1]));
+
+          expect(summary).toEqual({ added: 0, updated: 0, removed: removed.length });
+          expect(adapter.getSize(btree)).toBe(existingCount - removed.length);
+          expect(Array.from(adapter.getIterable(btree))).toEqual(range(1, existingCount).filter(i => removed.indexOf(i) === -1));
+          expectValidBTree(btree.root, maxItemsPerLevel, true);
+        });
+      });
+    });
+  });
+
+  it('removes many items sharing the same order key', () => {
+    const adapter = new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      maxItemsPerLevel: 4,
+    });
+    const btree = adapter.createFrom(range(1, 60).map(i => ({ key: `${i % 20}`, order: i % 20 % 3 })));
+
+    // There are three items with each key, which are each removed by a separate value.
+    const summary = adapter.removeMany(btree, range(1, 45).map(i => ({ key: `${i % 15}`, order: i % 15 % 3 })));
+
+    expect(summary).toEqual({ added: 0, updated: 0, removed: 45 });
+    expect(Array.from(adapter.getIterable(btree)).map(item => item.key).sort()).toEqual(
+      range(15, 19).concat(range(15, 19), range(15, 19)).map(i => `${i}`).sort(),
+    );
+    expectValidBTree(btree.root, 4, true);
+  });
+
+  it('only copies the nodes which lose items when removing many items within Immer drafts', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const initial = { btree: adapter.createFrom(range(1, 200)) };
+
+    const next = produce(initial, (draft: typeof initial) => {
+      adapter.removeMany(draft.btree, [190, 193, 196, 199]);
+    });
+
+    expect(Array.from(adapter.getIterable(next.btree))).toEqual(range(1, 200).filter(i => [190, 193, 196, 199].indexOf(i) === -1));
+    expect(Array.from(adapter.getIterable(initial.btree))).toEqual(range(1, 200));
+    expect(next.btree.root.children![0]).toBe(initial.btree.root.children![0]);
+    expectValidBTree(next.btree.root, 4, true);
+  });
+
+  it('diffs identical collections', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const btree = adapter.createFrom(range(1, 50));
+
+    expect(adapter.diff(btree, btree)).toEqual([]);
+  });
+
+  it('diffs inserts and removes', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const prev = { btree: adapter.createFrom(range(1, 100).map(i => i * 2)) };
+
+    const next = produce(prev, (draft: typeof prev) => {
+      adapter.insert(draft.btree, 51);
+      adapter.remove(draft.btree, 150);
+    });
+
+    expect(adapter.diff(prev.btree, next.btree)).toEqual([
+      { type: 'remove', index: 74, value: 150 },
+      { type: 'insert', index: 25, value: 51 },
+    ]);
+  });
+
+  it('diffs an item moved by an update', () => {
+    const adapter = new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      maxItemsPerLevel: 4,
+    });
+    const prev = { btree: adapter.createFrom(range(1, 100).map(i => ({ key: `key ${i}`, order: i }))) };
+
+    const next = produce(prev, (draft: typeof prev) => {
+      adapter.update(draft.btree, { key: 'key 10', order: 10 }, (item) => { item.order = 90.5; });
+    });
+
+    expect(adapter.diff(prev.btree, next.btree)).toEqual([
+      { type: 'move', fromIndex: 9, toIndex: 89, value: { key: 'key 10', order: 90.5 } },
+    ]);
+  });
+
+  it('diffs many changes', () => {
+    const adapter = new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      maxItemsPerLevel: 4,
+    });
+    const prev = { btree: adapter.createFrom(range(1, 200).map(i => ({ key: `key ${i}`, order: i }))) };
+
+    const next = produce(prev, (draft: typeof prev) => {
+      for (let i = 1; i <= 200; i += 7) {
+        adapter.remove(draft.btree, { key: `key ${i}`, order: i });
+      }
+
+      for (let i = 2; i <= 200; i += 11) {
+        adapter.update(draft.btree, { key: `key ${i}`, order: i }, (item) => { item.order = (i * 37) % 200 + 0.5; });
+      }
+
+      for (let i = 1; i <= 30; i++) {
+        adapter.insert(draft.btree, { key: `new ${i}`, order: i * 6.25 });
+      }
+    });
+
+    const changes = adapter.diff(prev.btree, next.btree);
+
+    expect(applyChanges(Array.from(adapter.getIterable(prev.btree)), changes)).toEqual(Array.from(adapter.getIterable(next.btree)));
+    expect(changes.filter(change => change.type === 'remove').length).toBe(29);
+    expect(changes.filter(change => change.type === 'insert').length).toBe(30);
+    expect(changes.filter(change => change.type === 'move').length).toBeLessThanOrEqual(19);
+  });
+
+  it('does not visit the nodes shared by both collections when diffing', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const prev = { btree: adapter.createFrom(range(1, 500)) };
+    setAutoFreeze(false);
+
+    try {
+      const next = produce(prev, (draft: typeof prev) => {
+        adapter.insert(draft.btree, 250.5);
+      });
+
+      const prevNodes = new Set<IBTreeNode<number>>();
+      const collectNodes = (node: IBTreeNode<number>) => {
+        prevNodes.add(node);
+        if (node.children) node.children.forEach(collectNodes);
+      };
+      const sharedNodes: Array<IBTreeNode<number>> = [];
+      const collectSharedNodes = (node: IBTreeNode<number>) => {
+        if (prevNodes.has(node)) {
+          sharedNodes.push(node);
+        } else if (node.children) {
+          node.children.forEach(collectSharedNodes);
+        }
+      };
+      collectNodes(prev.btree.root);
+      collectSharedNodes(next.btree.root);
+
+      // The height of each tree is measured along its leftmost nodes, so only their children may be read.
+      const leftmostNodes = new Set<IBTreeNode<number>>();
+      for (let node = prev.btree.root; node.children; node = node.children[0]) leftmostNodes.add(node.children[0]);
+
+      for (const node of sharedNodes) {
+        Object.defineProperty(node, 'items', { get: () => { throw new Error('Visited a shared node'); } });
+        if (!leftmostNodes.has(node)) Object.defineProperty(node, 'children', { get: () => { throw new Error('Visited a shared node'); } });
+      }
+
+      expect(sharedNodes.length).toBeGreaterThan(1);
+      expect(adapter.diff(prev.btree, next.btree)).toEqual([{ type: 'insert', index: 250, value: 250.5 }]);
+    } finally {
+      setAutoFreeze(true);
+    }
+  });
+
+  it('diffs large reorders by hash code', () => {
+    const createAdapter = (hash?: (value: TestObject) => number) => new SortedCollectionAdapter({
+      orderComparer: objOrderComparer,
+      equalityComparer: (a, b) => a.key === b.key,
+      hash,
+      maxItemsPerLevel: 4,
+    });
+    const prevValues = range(1, 400).map(i => ({ key: `key ${i}`, order: i }));
+    const nextValues = prevValues.map(value => ({ key: value.key, order: -value.order })).reverse();
+
+    const hashedAdapter = createAdapter((value) => Number(value.key.substr(4)));
+    const hashedChanges = hashedAdapter.diff(hashedAdapter.createFrom(prevValues), hashedAdapter.createFrom(nextValues));
+
+    const getKeys = (values: TestObject[]) => values.map(value => value.key);
+
+    expect(getKeys(applyChanges(prevValues, hashedChanges))).toEqual(getKeys(nextValues));
+    expect(hashedChanges.filter(change => change.type !== 'move')).toEqual([]);
+
+    // Without a hash code, the values which aren't matched within the limit are removed and inserted instead.
+    const adapter = createAdapter();
+    const changes = adapter.diff(adapter.createFrom(prevValues), adapter.createFrom(nextValues));
+
+    expect(getKeys(applyChanges(prevValues, changes))).toEqual(getKeys(nextValues));
+    expect(changes.filter(change => change.type === 'insert').length).toBeGreaterThan(0);
+  });
+
+  it('diffs unrelated collections', () => {
+    const adapter = new SortedCollectionAdapter({ orderComparer, maxItemsPerLevel: 4 });
+    const prev = adapter.createFrom(range(1, 30));
+    const next = adapter.createFrom(range(20, 40));
+
+    const changes = adapter.diff(prev, next);
+
+    expect(applyChanges(range(1, 30), changes)).toEqual(range(20, 40));
+    expect(changes.filter(change => change.type === 'move')).toEqual([]);
+  });
+});
@@ -1,9 +1,15 @@
-import {iterableToIterableIterator} from './util';
+import {HashFunction} from './map';
+import {BatchSummary, createBatchSummary, iterableToIterableIterator} from './util';
 
 export interface IBTreeNode<T> {
   isRoot?: boolean;
   items: IBTreeValueNode<T>[];
   children?: Array<IBTreeNode<T>>;
+  /**
+   * The number of values stored in this node and all of its descendants. Missing in trees created by older versions
+   * (see SortedCollectionAdapter.migrate).
+   */
+  count: number;
 }
 
 export interface ISortedCollection<T> {
@@ -25,12 +31,56 @@ export interface LookupNodeInfo<T> {
   parentPath: ParentPath<T>;
 }
 
+/**
+ * The bounds of a range of a sorted collection, as used by SortedCollectionAdapter.getRangeIterable and countRange.
+ * Bounds are values of the collection, unless a BoundComparer is passed to compare values with bounds of another type.
+ */
+export interface SortedCollectionRange<B> {
+  from?: B;
+  to?: B;
+  fromInclusive?: boolean;
+  toInclusive?: boolean;
+  direction?: 'forward'|'backward';
+}
+
+/**
+ * A positional difference between two versions of a sorted collection, as returned by SortedCollectionAdapter.diff.
+ * Indexes of removed values (and the fromIndex of moved values) refer to the previous version, while indexes of inserted
+ * values (and the toIndex of moved values) refer to the next version.
+ */
+export type SortedCollectionChange<T> =
+  { type: 'insert', index: number, value: T } |
+  { type: 'remove', index: number, value: T } |
+  { type: 'move', fromIndex: number, toIndex: number, value: T };
+
+// A piece of one version of a tree being diffed: either a single value, or a node (and its descendants) which is shared
+// with the other version.
+type DiffToken<T> = {
+  index: number,
+  node?: IBTreeNode<T>,
+  valueNode?: IBTreeValueNode<T>,
+  match?: number,
+};
+
+type IteratorFrame<T> = {
+  index: number,
+  onChildren: boolean,
+  items: IBTreeValueNode<T>[],
+  children?: IBTreeNode<T>[]
+};
+
 export type Comparer<T> = (a: T, b: T) => number;
 
+/** Compares a value of a collection with the bound of a range, in the same way as the orderComparer. */
+export type BoundComparer<T, B> = (value: T, bound: B) => number;
+
 export type EqualityComparer<T> = (a: T, b: T) => boolean;
 
 const MAX_ITEMS_PER_LEVEL = 64; // Must be even for this implementation
 
+/** The most comparisons diff makes to match replaced values which can't be hashed. */
+const MAX_DIFF_COMPARISONS = 1 << 16;
+
 /**
  * This adapter class can be used to interact with an Immerutable Sorted Collection stored in the ngrx store.
  * This collection is backed by a B-tree which can efficiently handle insertions and deletions while maintaining
@@ -43,26 +93,44 @@ const MAX_ITEMS_PER_LEVEL = 64; // Must be even for this implementation
  * Runtimes:
  * Insert: O(log(n))
  * Remove: O(log(n))
+ * GetAt/IndexOf: O(log(n))
  * Iterate: O(n)
  */
 export class SortedCollectionAdapter<T> {
   orderComparer: Comparer<T>;
   equalityComparer: EqualityComparer<T>;
+  private hash: HashFunction<T>|undefined;
+  private hasDefaultEqualityComparer: boolean;
+  private unique: 'replace'|'reject'|undefined;
   private maxItemsPerLevel: number;
   private minItemsPerLevel: number;
 
   /**
    * @param args.orderComparer A function which compares two values (similar to Array.sort). Used for ordering this collection.
-   * @param args.equalityComparer A function which tests two values for equality. Optional (by default uses ===).
+   * @param args.equalityComparer A function which tests two values for equality. Optional (by default uses ===, or for
+   *                              unique collections, the orderComparer).
+   * @param args.hash A function which computes a hash code for a value, such that equal values (by the
+   *                  equalityComparer) have the same hash code. Used by diff to match up values which were replaced.
+   *                  Optional (only needed along with a custom equalityComparer, to keep diffs of large changes fast).
+   * @param args.unique Set to make the collection hold unique values (like a sorted set). A value is a duplicate if
+   *                    there's an equal value (by the equalityComparer) with the same order. Duplicates either replace
+   *                    the existing value ('replace') or are ignored ('reject'). Optional (by default duplicates are
+   *                    allowed).
    * @param args.maxItemsPerLevel Don't set this value; it is only available for use in unit testing.
    */
   constructor(args: {
     orderComparer: Comparer<T>,
     equalityComparer?: EqualityComparer<T>,
+    hash?: HashFunction<T>,
+    unique?: 'replace'|'reject',
     maxItemsPerLevel?: number,
   }) {
     this.orderComparer = args.orderComparer;
-    this.equalityComparer = args.equalityComparer || ((a, b) => a === b);
+    this.equalityComparer = args.equalityComparer ||
+      (args.unique ? ((a, b) => args.orderComparer(a, b) === 0) : ((a, b) => a === b));
+    this.hash = args.hash;
+    this.hasDefaultEqualityComparer = !args.equalityComparer && !args.unique;
+    this.unique = args.unique;
     this.maxItemsPerLevel = args.maxItemsPerLevel || MAX_ITEMS_PER_LEVEL;
 
     if (this.maxItemsPerLevel % 2 === 1) throw new Error('maxItemsPerLevel must be even');
@@ -80,22 +148,141 @@ export class SortedCollectionAdapter<T> {
     return this.createBTreeRootNode();
   }
 
-  /** Inserts an item into the collection in sorted order. */
-  insert(collection: ISortedCollection<T>, value: T): void {
+  /**
+   * Creates a new Immerutable Sorted Collection containing the provided values. The B-tree is built bottom-up out of
+   * fully packed nodes, which is considerably faster than inserting the values one at a time.
+   *
+   * @param values The values to store in the collection. If the collection is unique, duplicates are replaced by later
+   *               values or rejected in favor of earlier values (depending on the unique option).
+   * @param options.presorted Set to true if the values are already in sorted order, so sorting them can be skipped.
+   */
+  createFrom(values: T[], options: { presorted?: boolean } = {}): ISortedCollection<T> {
+    const collection = this.createBTreeRootNode();
+    if (values.length === 0) return collection;
+
+    const sorted = this.removeDuplicates(options.presorted ? values : values.slice().sort(this.orderComparer));
+    let level = this.buildLeafLevel(sorted.map(value => this.createBTreeValueNode(value)));
+
+    while (level.nodes.length > 1) {
+      level = this.buildInternalLevel(level.nodes, level.separators);
+    }
+
+    collection.root = level.nodes[0];
+    collection.root.isRoot = true;
+    collection.size = sorted.length;
+
+    return collection;
+  }
+
+  /**
+   * Converts a collection created by an older version of this library (in which B-tree nodes didn't store the number of
+   * values in their subtrees) to the current format. The collection is converted in place (so this may be called on an
+   * Immer draft) and returned. Collections which are already in the current format are returned unchanged.
+   *
+   * The methods which modify a collection convert it first, and the other methods count the values of older
+   * collections as they go (which is slower), so this only needs to be called to avoid that cost.
+   */
+  migrate(collection: ISortedCollection<T>): ISortedCollection<T> {
+    if (collection.root.count === undefined) this.recountBTreeNode(collection.root);
+
+    return collection;
+  }
+
+  /**
+   * Inserts an item into the collection in sorted order. Returns true if it was inserted, or false if the collection is
+   * unique and already held an equal value (which is replaced by the item, or kept, depending on the unique option).
+   */
+  insert(collection: ISortedCollection<T>, value: T): boolean {
+    this.migrate(collection);
+
+    if (this.unique) {
+      const existing = this._lookupValuePath(collection.root, value);
+
+      if (existing !== undefined) {
+        if (this.unique === 'replace') {
+          const parentNode = existing.parentPath[existing.parentPath.length - 1];
+          parentNode.node.items[parentNode.index].value = value;
+          existing.valueNode.value = value;
+        }
+
+        return false;
+      }
+    }
+
     collection.size++;
 
     this.insertInBTreeNode(collection.root, collection.root, undefined, value);
+
+    return true;
+  }
+
+  /**
+   * Inserts each of the values into the collection in sorted order. The values are sorted and then divided between
+   * the subtrees they belong to, so each node is only visited once no matter how many of the values it receives.
+   *
+   * If the collection is unique, the values are inserted one at a time instead, as each may be a duplicate. Replaced
+   * values are then reported as updated, while rejected values aren't reported.
+   *
+   * @param values The values to insert. Duplicates are allowed unless the collection is unique.
+   * @param options.presorted Set to true if the values are already in sorted order, so sorting them can be skipped.
+   */
+  insertMany(collection: ISortedCollection<T>, values: T[], options: { presorted?: boolean } = {}): BatchSummary {
+    const summary = createBatchSummary();
+    if (values.length === 0) return summary;
+
+    this.migrate(collection);
+
+    if (this.unique) {
+      for (const value of values) {
+        if (this.insert(collection, value)) {
+          summary.added++;
+        } else if (this.unique === 'replace') {
+          summary.updated++;
+        }
+      }
+
+      return summary;
+    }
+
+    const sorted = options.presorted ? values : values.slice().sort(this.orderComparer);
+    let level = this.insertManyInBTreeNode(collection.root, sorted.map(value => this.createBTreeValueNode(value)));
+
+    while (level.nodes.length > 1) {
+      level = this.buildInternalLevel(level.nodes, level.separators);
+    }
+
+    if (level.nodes[0] !== collection.root) {
+      collection.root = level.nodes[0];
+      collection.root.isRoot = true;
+    }
+
+    collection.size += sorted.length;
+    summary.added = sorted.length;
+
+    return summary;
   }
 
   getSize(collection: ISortedCollection<T>) {
     return collection.size;
   }
 
+  /**
+   * Updates the value using an updater function, which may mutate the value or return a new one, and then moves it to
+   * its place in sorted order.
+   *
+   * If the collection is unique and the updated value is a duplicate of another value, the other value is replaced in
+   * 'replace' mode. In 'reject' mode an error is thrown, and if the updater returned a new value, the collection is
+   * left unchanged. Values mutated by the updater can't be restored, so they're kept alongside the duplicate (within an
+   * Immer producer, the error discards the changes instead).
+   */
   update(collection: ISortedCollection<T>, value: T, updater: (item: T) => T|void|undefined): void|T {
+    this.migrate(collection);
+
     const existing = this._lookupValuePath(collection.root, value);
     if (!existing) return;
 
-    const updated = updater(existing.valueNode.value) as T|undefined;
+    const previous = existing.valueNode.value;
+    const updated = updater(previous) as T|undefined;
 
     // Replace the value if a new value was returned.
     if (updated !== undefined) {
@@ -104,18 +291,40 @@ export class SortedCollectionAdapter<T> {
       existing.valueNode.value = updated;
     }
 
-    this.ensureSortedOrderOfNode(collection, existing);
+    if (this.unique) {
+      this.ensureUniqueOrderOfNode(collection, existing, updated === undefined ? undefined : previous);
+    } else {
+      this.ensureSortedOrderOfNode(collection, existing);
+    }
 
     return updated;
   }
 
+  /**
+   * Updates each of the values in sorted order, in a single pass through the collection. The updater receives the
+   * index of each value, and must keep the values in the same relative order (which isn't checked).
+   */
+  updateAllInOrder(collection: ISortedCollection<T>, updater: (item: T, index: number) => T|void|undefined): void {
+    this.updateAllInBTreeNode(collection.root, updater, 0);
+  }
+
   /**
    * Ensures that a value is still in sorted order after being mutated.
    * In general, prefer using the "update" method instead.
    *
+   * If the collection is unique and the mutated value is a duplicate of another value, the other value is replaced in
+   * 'replace' mode. In 'reject' mode an error is thrown (and the mutated value is kept alongside the duplicate).
+   *
    * @param nodeInfo The return value of of calling lookupValuePath for the value being mutated.
    */
   ensureSortedOrderOfNode(collection: ISortedCollection<T>, nodeInfo: LookupNodeInfo<T>): void {
+    this.migrate(collection);
+
+    if (this.unique) {
+      this.ensureUniqueOrderOfNode(collection, nodeInfo);
+      return;
+    }
+
     const precedingItem = this.getPreviousValue(nodeInfo.parentPath);
     const nextItem = this.getNextValue(nodeInfo.parentPath);
     const value = nodeInfo.valueNode.value;
@@ -132,6 +341,33 @@ export class SortedCollectionAdapter<T> {
     }
   }
 
+  // Moves a mutated value of a unique collection to its place in sorted order, unless it's a duplicate of another value.
+  // Duplicates have the same order, so values which are in order and have different orders from their neighbors are
+  // left in place. Otherwise the value is taken out before looking for a duplicate, as the lookup relies on the other
+  // values being in order. A rejected value is put back (or the previous value, if there is one) before throwing.
+  private ensureUniqueOrderOfNode(collection: ISortedCollection<T>, nodeInfo: LookupNodeInfo<T>, previous?: T): void {
+    const precedingItem = this.getPreviousValue(nodeInfo.parentPath);
+    const nextItem = this.getNextValue(nodeInfo.parentPath);
+    const value = nodeInfo.valueNode.value;
+
+    if (
+      (precedingItem === undefined || this.orderComparer(value, precedingItem) > 0) &&
+      (nextItem === undefined || this.orderComparer(value, nextItem) < 0)
+    ) {
+      return;
+    }
+
+    this.removeByPath(nodeInfo);
+    collection.size--;
+
+    if (this.insert(collection, value) || this.unique === 'replace') return;
+
+    collection.size++;
+    this.insertInBTreeNode(collection.root, collection.root, undefined, previous === undefined ? value : previous);
+
+    throw new Error('The updated value is a duplicate of another value in the unique collection');
+  }
+
   lookupValuePath(collection: ISortedCollection<T>, value: T): LookupNodeInfo<T>|undefined {
     return this._lookupValuePath(collection.root, value);
   }
@@ -148,7 +384,47 @@ export class SortedCollectionAdapter<T> {
     return this.getFurthestRightValue(collection.root);
   }
 
+  /**
+   * Gets the value at the specified position in sorted order. If the index is out of range, undefined is returned.
+   */
+  getAt(collection: ISortedCollection<T>, index: number): T|undefined {
+    if (index < 0 || index >= this.getCount(collection.root)) return;
+
+    let node = collection.root;
+
+    while (node.children !== undefined) {
+      let i = 0;
+
+      for (; i < node.children.length; i++) {
+        const childCount = this.getCount(node.children[i]);
+
+        if (index < childCount) break;
+        index -= childCount;
+
+        if (index === 0) return node.items[i].value;
+        index--;
+      }
+
+      node = node.children[i];
+    }
+
+    return node.items[index].value;
+  }
+
+  /**
+   * Gets the position of the specified value in sorted order, or -1 if the value is not in the collection.
+   * The value is located in the same way as the remove and update methods locate values.
+   */
+  indexOf(collection: ISortedCollection<T>, value: T): number {
+    const nodeInfo = this._lookupValuePath(collection.root, value);
+    if (nodeInfo === undefined) return -1;
+
+    return this.getIndexOfPath(nodeInfo.parentPath);
+  }
+
   remove(collection: ISortedCollection<T>, value: T): void {
+    this.migrate(collection);
+
     const existingInfo = this._lookupValuePath(collection.root, value);
     if (existingInfo === undefined) return;
 
@@ -157,25 +433,195 @@ export class SortedCollectionAdapter<T> {
     return this.removeByPath(existingInfo);
   }
 
+  /**
+   * Removes each of the values from the collection. Values which aren't in the collection are ignored. The values are
+   * located first, and then removed by grouping them by their path through the tree, so each node is only visited (and
+   * rebalanced) once no matter how many of the values it holds.
+   */
+  removeMany(collection: ISortedCollection<T>, values: T[]): BatchSummary {
+    this.migrate(collection);
+
+    const summary = createBatchSummary();
+    const located = new Set<IBTreeValueNode<T>>();
+    const paths: number[][] = [];
+
+    for (const value of values) {
+      // Values which were already located are skipped, so equal values each remove a different item.
+      const nodeInfo = this._lookupValuePath(collection.root, value, [], located);
+      if (nodeInfo === undefined) continue;
+
+      located.add(nodeInfo.valueNode);
+      paths.push(nodeInfo.parentPath.map(pathInfo => pathInfo.index));
+    }
+
+    if (paths.length === 0) return summary;
+
+    this.removeManyInBTreeNode(collection.root, paths, 0);
+
+    // If the root is left with a single child, make the child the new root.
+    while (collection.root.children !== undefined && collection.root.children.length === 1) {
+      const onlyChild = collection.root.children[0];
+      collection.root.items = onlyChild.items;
+      collection.root.children = onlyChild.children;
+    }
+
+    collection.size -= paths.length;
+    summary.removed = paths.length;
+
+    return summary;
+  }
+
   getIterable(collection: ISortedCollection<T>, direction: 'forward'|'backward' = 'forward'): Iterable<T> {
+    const root = collection.root;
+
     if (direction === 'forward') {
-      return this.getForwardIterable(collection);
+      return this.getForwardIterable(() => [{ onChildren: true, index: 0, items: root.items, children: root.children }]);
     } else {
-      return this.getBackwardIterable(collection);
+      return this.getBackwardIterable(() => [{
+        onChildren: true,
+        index: root.children ? root.children.length - 1 : root.items.length,
+        items: root.items,
+        children: root.children
+      }]);
     }
   }
 
-  private getForwardIterable(collection: ISortedCollection<T>): Iterable<T> {
-    type Frame = {
-      index: number,
-      onChildren: boolean,
-      items: IBTreeValueNode<T>[],
-      children?: IBTreeNode<T>[]
-    };
+  /**
+   * Returns an Iterable over the items which fall between the "from" and "to" bounds of the range (according to the
+   * orderComparer). Either bound may be omitted to leave that side of the range open. Bounds are inclusive by default.
+   * Only the portion of the tree within the range is visited. The bounds may be of another type than the values (such
+   * as just the properties read by the orderComparer) if a boundComparer is passed to compare values with them.
+   *
+   * Example:
+   * ```
+   * const adapter = new SortedCollectionAdapter<number>({ orderComparer: (a, b) => a - b });
+   * ...
+   *
+   * for (const value of adapter.getRangeIterable(collection, { from: 10, to: 20, toInclusive: false })) {
+   *   console.log(value); // 10 <= value < 20
+   * }
+   * ```
+   */
+  getRangeIterable(collection: ISortedCollection<T>, range: SortedCollectionRange<T>): Iterable<T>;
+  getRangeIterable<B>(
+    collection: ISortedCollection<T>,
+    range: SortedCollectionRange<B>,
+    boundComparer: BoundComparer<T, B>,
+  ): Iterable<T>;
+  getRangeIterable(
+    collection: ISortedCollection<T>,
+    range: SortedCollectionRange<any>,
+    boundComparer: BoundComparer<T, any> = this.orderComparer,
+  ): Iterable<T> {
+    const {from, to, fromInclusive = true, toInclusive = true, direction = 'forward'} = range;
+    const root = collection.root;
+
+    if (direction === 'forward') {
+      return this.getForwardIterable(
+        () => from === undefined ?
+          [{ onChildren: true, index: 0, items: root.items, children: root.children }] :
+          this.getStackFromBound(root, from, !fromInclusive, boundComparer),
+        to === undefined ? undefined : (value) => {
+          const comparison = boundComparer(value, to);
+          return toInclusive ? comparison > 0 : comparison >= 0;
+        },
+      );
+    } else {
+      return this.getBackwardIterable(
+        () => to === undefined ?
+          [{
+            onChildren: true,
+            index: root.children ? root.children.length - 1 : root.items.length,
+            items: root.items,
+            children: root.children
+          }] :
+          this.getStackFromBound(root, to, toInclusive, boundComparer),
+        from === undefined ? undefined : (value) => {
+          const comparison = boundComparer(value, from);
+          return fromInclusive ? comparison < 0 : comparison <= 0;
+        },
+      );
+    }
+  }
+
+  /**
+   * Counts the items which fall between the "from" and "to" bounds of the range in O(log(n)) time. As with
+   * getRangeIterable, a boundComparer may be passed to use bounds of another type than the values.
+   */
+  countRange(collection: ISortedCollection<T>, range: SortedCollectionRange<T>): number;
+  countRange<B>(
+    collection: ISortedCollection<T>,
+    range: SortedCollectionRange<B>,
+    boundComparer: BoundComparer<T, B>,
+  ): number;
+  countRange(
+    collection: ISortedCollection<T>,
+    range: SortedCollectionRange<any>,
+    boundComparer: BoundComparer<T, any> = this.orderComparer,
+  ): number {
+    const {from, to, fromInclusive = true, toInclusive = true} = range;
+    const root = collection.root;
+
+    const start = from === undefined ? 0 : this.countPrecedingBound(root, from, !fromInclusive, boundComparer);
+    const end = to === undefined ? this.getCount(root) : this.countPrecedingBound(root, to, toInclusive, boundComparer);
+
+    return Math.max(0, end - start);
+  }
+
+  /**
+   * Gets the inserts, removes and moves which turn one version of the collection into another (for instance, the
+   * previous and next state of an Immer producer). Nodes which are shared by both versions are treated as a single
+   * block, so they're neither visited nor compared, and the cost is proportional to the size of the change. Values
+   * are matched using the equalityComparer, and the fewest values possible are reported as moved. Removes are listed
+   * in order of their index in prev, followed by inserts and moves in order of their index in next.
+   *
+   * Replaced values are matched up through their hash codes (or the values themselves, when the default
+   * equalityComparer is used). Otherwise, a limited number of comparisons are made, and values which aren't matched
+   * within that limit are reported as removed and inserted rather than moved.
+   */
+  diff(prev: ISortedCollection<T>, next: ISortedCollection<T>): Array<SortedCollectionChange<T>> {
+    if (prev.root === next.root) return [];
+
+    const sharedNodes = this.getSharedNodes(prev.root, next.root);
+    const prevTokens: Array<DiffToken<T>> = [];
+    const nextTokens: Array<DiffToken<T>> = [];
+    this.tokenizeBTreeNode(prev.root, sharedNodes, prevTokens, 0);
+    this.tokenizeBTreeNode(next.root, sharedNodes, nextTokens, 0);
+
+    this.matchDiffTokens(prevTokens, nextTokens);
+    const kept = this.getLongestIncreasingMatches(nextTokens);
+    const changes: Array<SortedCollectionChange<T>> = [];
+
+    for (const token of prevTokens) {
+      if (token.match === undefined) changes.push({ type: 'remove', index: token.index, value: token.valueNode!.value });
+    }
+
+    nextTokens.forEach((token, i) => {
+      if (token.match === undefined) {
+        changes.push({ type: 'insert', index: token.index, value: token.valueNode!.value });
+      } else if (!kept[i]) {
+        const fromIndex = prevTokens[token.match].index;
+
+        if (token.node === undefined) {
+          changes.push({ type: 'move', fromIndex, toIndex: token.index, value: token.valueNode!.value });
+        } else {
+          this.collectValues(token.node, []).forEach((value, offset) => {
+            changes.push({ type: 'move', fromIndex: fromIndex + offset, toIndex: token.index + offset, value });
+          });
+        }
+      }
+    });
+
+    return changes;
+  }
+
+  private getForwardIterable(createStack: () => IteratorFrame<T>[], isPastEnd?: (value: T) => boolean): Iterable<T> {
+    type Frame = IteratorFrame<T>;
 
     return {
       [Symbol.iterator]: () => {
-        const stack: Frame[] = [{ onChildren: true, index: 0, items: collection.root.items, children: collection.root.children }];
+        const stack: Frame[] = createStack();
+        let done = false;
 
         function traverseToFurthestLeft(frame: Frame): T|undefined {
           if (frame === undefined) return undefined;
@@ -205,14 +651,16 @@ export class SortedCollectionAdapter<T> {
 
         return {
           next: () => {
-            const value = traverseToFurthestLeft(stack[stack.length - 1]);
+            const value = done ? undefined : traverseToFurthestLeft(stack[stack.length - 1]);
 
-            if (value !== undefined) {
+            if (value !== undefined && (isPastEnd === undefined || !isPastEnd(value))) {
               return {
                 value: value as T,
                 done: false,
               };
             } else {
+              done = true;
+
               return {
                 value: undefined as any as T,
                 done: true,
@@ -224,22 +672,13 @@ export class SortedCollectionAdapter<T> {
     };
   }
 
-  private getBackwardIterable(collection: ISortedCollection<T>): Iterable<T> {
-    type Frame = {
-      index: number,
-      onChildren: boolean,
-      items: IBTreeValueNode<T>[],
-      children?: IBTreeNode<T>[]
-    };
+  private getBackwardIterable(createStack: () => IteratorFrame<T>[], isPastEnd?: (value: T) => boolean): Iterable<T> {
+    type Frame = IteratorFrame<T>;
 
     return {
       [Symbol.iterator]: () => {
-        const stack: Frame[] = [{
-          onChildren: true,
-          index: collection.root.children ? collection.root.children.length - 1 : collection.root.items.length,
-          items: collection.root.items,
-          children: collection.root.children
-        }];
+        const stack: Frame[] = createStack();
+        let done = false;
 
         function traverseToFurthestRight(frame: Frame): T|undefined {
           if (frame === undefined) return undefined;
@@ -275,14 +714,16 @@ export class SortedCollectionAdapter<T> {
 
         return {
           next: () => {
-            const value = traverseToFurthestRight(stack[stack.length - 1]);
+            const value = done ? undefined : traverseToFurthestRight(stack[stack.length - 1]);
 
-            if (value !== undefined) {
+            if (value !== undefined && (isPastEnd === undefined || !isPastEnd(value))) {
               return {
                 value: value as T,
                 done: false,
               };
             } else {
+              done = true;
+
               return {
                 value: undefined as any as T,
                 done: true,
@@ -294,6 +735,56 @@ export class SortedCollectionAdapter<T> {
     };
   }
 
+  // Builds an iteration stack positioned at the first item which comes after the bound (or is equal to it, unless
+  // skipEqual is set). Iterating forward from this stack starts at that item, and iterating backward starts at the
+  // item before it.
+  private getStackFromBound<B>(
+    root: IBTreeNode<T>,
+    bound: B,
+    skipEqual: boolean,
+    boundComparer: BoundComparer<T, B>,
+  ): IteratorFrame<T>[] {
+    const stack: IteratorFrame<T>[] = [];
+    let node = root;
+
+    while (true) {
+      const index = this.binarySearchForBound(node.items, bound, skipEqual, boundComparer);
+
+      if (node.children === undefined) {
+        stack.push({ onChildren: true, index, items: node.items, children: undefined });
+        return stack;
+      }
+
+      // The child at the index is pushed onto the stack next, so this frame resumes with the items around it.
+      stack.push({ onChildren: false, index, items: node.items, children: node.children });
+      node = node.children[index];
+    }
+  }
+
+  // Counts the items which come before the bound (including items equal to the bound if skipEqual is set).
+  private countPrecedingBound<B>(
+    root: IBTreeNode<T>,
+    bound: B,
+    skipEqual: boolean,
+    boundComparer: BoundComparer<T, B>,
+  ): number {
+    let count = 0;
+    let node = root;
+
+    while (true) {
+      const index = this.binarySearchForBound(node.items, bound, skipEqual, boundComparer);
+      count += index;
+
+      if (node.children === undefined) return count;
+
+      for (let i = 0; i < index; i++) {
+        count += this.getCount(node.children[i]);
+      }
+
+      node = node.children[index];
+    }
+  }
+
   private insertInBTreeNode(node: IBTreeNode<T>, parent: IBTreeNode<T>|undefined, parentIndex: number|undefined, value: T): void {
     const isLeafNode = this.isLeafNode(node);
     if (parent !== undefined && ((isLeafNode && node.items.length >= this.maxItemsPerLevel) || (!isLeafNode && node.children!.length >= this.maxItemsPerLevel))) {
@@ -314,11 +805,16 @@ export class SortedCollectionAdapter<T> {
         // Insert pointers to the new arrays and value into the parent node.
         parent.children!.splice(parentIndex, 1, left, right);
         parent.items.splice(parentIndex, 0, mid);
+
+        // The parent already counted the value when descending into this node, and counts it again below.
+        parent.count--;
       }
 
       return this.insertInBTreeNode(parent, undefined, undefined, value);
     }
 
+    node.count++;
+
     if (isLeafNode) {
       const insertionIndex = this.findLeafNodeInsertionPoint(node, value);
 
@@ -334,6 +830,464 @@ export class SortedCollectionAdapter<T> {
     }
   }
 
+  // Inserts the sorted value nodes into the subtree rooted at the node. If the node overflows, it is replaced by several
+  // fully packed nodes, so the nodes which take its place are returned (along with the separators between them).
+  private insertManyInBTreeNode(node: IBTreeNode<T>, valueNodes: IBTreeValueNode<T>[]) {
+    node.count += valueNodes.length;
+
+    if (this.isLeafNode(node)) {
+      const items = this.mergeValueNodes(node.items, valueNodes);
+
+      if (items.length <= this.maxItemsPerLevel) {
+        node.items = items;
+
+        return { nodes: [node], separators: [] as IBTreeValueNode<T>[] };
+      }
+
+      return this.buildLeafLevel(items);
+    }
+
+    // Work from right to left so that splicing in replacement nodes doesn't shift the children still to be visited.
+    let end = valueNodes.length;
+
+    for (let childIndex = node.children!.length - 1; childIndex >= 0 && end > 0; childIndex--) {
+      let start = end;
+
+      if (childIndex === 0) {
+        start = 0;
+      } else {
+        const separator = node.items[childIndex - 1].value;
+        while (start > 0 && this.orderComparer(valueNodes[start - 1].value, separator) >= 0) start--;
+      }
+
+      if (start === end) continue;
+
+      const child = node.children![childIndex];
+      const replacement = this.insertManyInBTreeNode(child, valueNodes.slice(start, end));
+
+      if (replacement.nodes.length > 1 || replacement.nodes[0] !== child) {
+        node.children!.splice(childIndex, 1, ...replacement.nodes);
+        node.items.splice(childIndex, 0, ...replacement.separators);
+      }
+
+      end = start;
+    }
+
+    if (node.children!.length <= this.maxItemsPerLevel) {
+      return { nodes: [node], separators: [] as IBTreeValueNode<T>[] };
+    }
+
+    return this.buildInternalLevel(node.children!, node.items);
+  }
+
+  // Removes the items at the paths (lists of indexes, as in a ParentPath) starting at the depth of the node. Afterwards,
+  // the node itself may be deficient (which its parent fixes), but its children aren't.
+  private removeManyInBTreeNode(node: IBTreeNode<T>, paths: number[][], depth: number) {
+    const itemIndexes: number[] = [];
+    const childPaths: number[][][] = [];
+
+    for (const path of paths) {
+      if (path.length === depth + 1) {
+        itemIndexes.push(path[depth]);
+      } else {
+        (childPaths[path[depth]] || (childPaths[path[depth]] = [])).push(path);
+      }
+    }
+
+    // Work from right to left so that removing items doesn't shift the items still to be removed.
+    itemIndexes.sort((a, b) => b - a);
+
+    if (this.isLeafNode(node)) {
+      for (const index of itemIndexes) {
+        node.items.splice(index, 1);
+      }
+
+      node.count -= itemIndexes.length;
+
+      return;
+    }
+
+    const children = node.children!;
+
+    for (let index = 0; index < childPaths.length; index++) {
+      if (childPaths[index] !== undefined) this.removeManyInBTreeNode(children[index], childPaths[index], depth + 1);
+    }
+
+    // Replace each removed item with the last value of the subtree to its left (or the first value of the subtree to its
+    // right). If both subtrees are empty, one of them is dropped along with the item.
+    for (const index of itemIndexes) {
+      if (children[index].count > 0) {
+        node.items[index] = this.removeLastValueNode(children[index]);
+      } else if (children[index + 1].count > 0) {
+        node.items[index] = this.removeFirstValueNode(children[index + 1]);
+      } else {
+        node.items.splice(index, 1);
+        children.splice(index + 1, 1);
+      }
+    }
+
+    this.fixDeficientChildren(node);
+    node.count = this.countSubtree(node);
+  }
+
+  private removeLastValueNode(node: IBTreeNode<T>): IBTreeValueNode<T> {
+    node.count--;
+
+    if (this.isLeafNode(node)) return node.items.pop()!;
+
+    const valueNode = this.removeLastValueNode(node.children![node.children!.length - 1]);
+    this.fixDeficientChildren(node);
+
+    return valueNode;
+  }
+
+  private removeFirstValueNode(node: IBTreeNode<T>): IBTreeValueNode<T> {
+    node.count--;
+
+    if (this.isLeafNode(node)) return node.items.shift()!;
+
+    const valueNode = this.removeFirstValueNode(node.children![0]);
+    this.fixDeficientChildren(node);
+
+    return valueNode;
+  }
+
+  // Combines each deficient child of the node with a sibling (and the separator between them), splitting the combined
+  // node in two if it's too large.
+  private fixDeficientChildren(node: IBTreeNode<T>) {
+    const children = node.children!;
+    let index = 0;
+
+    while (index < children.length && children.length > 1) {
+      const child = children[index];
+      const isLeafNode = this.isLeafNode(child);
+
+      if (!this.isNodeDeficient(child, isLeafNode)) {
+        index++;
+        continue;
+      }
+
+      const leftIndex = index < children.length - 1 ? index : index - 1;
+      const left = children[leftIndex];
+      const right = children[leftIndex + 1];
+      const combined = this.createBTreeNode(
+        left.items.concat([node.items[leftIndex]], right.items),
+        isLeafNode ? undefined : left.children!.concat(right.children!),
+      );
+
+      // A deficient internal node may have a deficient only child, which can now be combined with its new sibling.
+      if (!isLeafNode) this.fixDeficientChildren(combined);
+
+      if ((isLeafNode ? combined.items.length : combined.children!.length) > this.maxItemsPerLevel) {
+        const split = this.splitNode(combined);
+        children.splice(leftIndex, 2, split.left, split.right);
+        node.items[leftIndex] = split.mid;
+        index = leftIndex + 1;
+      } else {
+        // The combined node may still be deficient, so it's checked again.
+        children.splice(leftIndex, 2, combined);
+        node.items.splice(leftIndex, 1);
+        index = leftIndex;
+      }
+    }
+  }
+
+  // Gets the number of values in the subtree, counting them if the tree was created by an older version (see migrate).
+  private getCount(node: IBTreeNode<T>): number {
+    if (node.count !== undefined) return node.count;
+
+    let count = node.items.length;
+
+    if (node.children) {
+      for (let i = 0; i < node.children.length; i++) {
+        count += this.getCount(node.children[i]);
+      }
+    }
+
+    return count;
+  }
+
+  // Stores the number of values in each node of the subtree.
+  private recountBTreeNode(node: IBTreeNode<T>): number {
+    let count = node.items.length;
+
+    if (node.children) {
+      for (let i = 0; i < node.children.length; i++) {
+        count += this.recountBTreeNode(node.children[i]);
+      }
+    }
+
+    node.count = count;
+
+    return count;
+  }
+
+  private countSubtree(node: IBTreeNode<T>): number {
+    let count = node.items.length;
+
+    if (node.children) {
+      for (let i = 0; i < node.children.length; i++) {
+        count += node.children[i].count;
+      }
+    }
+
+    return count;
+  }
+
+  // Merges two sorted arrays of value nodes. Values from the second array are placed after equal values from the first.
+  private mergeValueNodes(first: IBTreeValueNode<T>[], second: IBTreeValueNode<T>[]) {
+    const merged: IBTreeValueNode<T>[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < first.length || j < second.length) {
+      if (j >= second.length || (i < first.length && this.orderComparer(first[i].value, second[j].value) <= 0)) {
+        merged.push(first[i++]);
+      } else {
+        merged.push(second[j++]);
+      }
+    }
+
+    return merged;
+  }
+
+  // Returns the index following the last value in the subtree.
+  private updateAllInBTreeNode(node: IBTreeNode<T>, updater: (item: T, index: number) => T|void|undefined, index: number): number {
+    for (let i = 0; i < node.items.length; i++) {
+      if (node.children) index = this.updateAllInBTreeNode(node.children[i], updater, index);
+
+      const updated = updater(node.items[i].value, index++) as T|undefined;
+      if (updated !== undefined) node.items[i].value = updated;
+    }
+
+    if (node.children) index = this.updateAllInBTreeNode(node.children[node.children.length - 1], updater, index);
+
+    return index;
+  }
+
+  // Removes duplicates from sorted values when the collection is unique. Later values replace earlier ones, or are
+  // rejected, depending on the unique option.
+  private removeDuplicates(sorted: T[]): T[] {
+    if (!this.unique) return sorted;
+
+    const result: T[] = [];
+    // The index in the result of the first value with the same order as the current value.
+    let runStart = 0;
+
+    for (const value of sorted) {
+      if (result.length > 0 && this.orderComparer(result[result.length - 1], value) !== 0) runStart = result.length;
+
+      let duplicateIndex = -1;
+      for (let i = runStart; i < result.length && duplicateIndex === -1; i++) {
+        if (this.equalityComparer(result[i], value)) duplicateIndex = i;
+      }
+
+      if (duplicateIndex === -1) {
+        result.push(value);
+      } else if (this.unique === 'replace') {
+        result[duplicateIndex] = value;
+      }
+    }
+
+    return result;
+  }
+
+  // Finds the nodes which are in both trees, without visiting the descendants of those nodes. A shared node is the same
+  // height in both trees, and its parents are either the same node or both unshared, so the trees are descended one
+  // height at a time, and only the children of unshared nodes are compared.
+  private getSharedNodes(prevRoot: IBTreeNode<T>, nextRoot: IBTreeNode<T>): Set<IBTreeNode<T>> {
+    const sharedNodes = new Set<IBTreeNode<T>>();
+    const prevHeight = this.getHeight(prevRoot);
+    const nextHeight = this.getHeight(nextRoot);
+    let prevNodes: Array<IBTreeNode<T>> = [];
+    let nextNodes: Array<IBTreeNode<T>> = [];
+
+    for (let height = Math.max(prevHeight, nextHeight); height >= 0; height--) {
+      if (height === prevHeight) prevNodes.push(prevRoot);
+      if (height === nextHeight) nextNodes.push(nextRoot);
+
+      const prevSet = new Set(prevNodes);
+      const nextChildren: Array<IBTreeNode<T>> = [];
+      const prevChildren: Array<IBTreeNode<T>> = [];
+
+      for (const node of nextNodes) {
+        if (prevSet.has(node)) {
+          sharedNodes.add(node);
+        } else if (node.children) {
+          nextChildren.push(...node.children);
+        }
+      }
+
+      for (const node of prevNodes) {
+        if (!sharedNodes.has(node) && node.children) prevChildren.push(...node.children);
+      }
+
+      prevNodes = prevChildren;
+      nextNodes = nextChildren;
+    }
+
+    return sharedNodes;
+  }
+
+  // The number of levels below the node.
+  private getHeight(node: IBTreeNode<T>): number {
+    let height = 0;
+
+    for (let curr = node; curr.children !== undefined; curr = curr.children[0]) {
+      height++;
+    }
+
+    return height;
+  }
+
+  private collectValues(node: IBTreeNode<T>, values: T[]): T[] {
+    for (let i = 0; i < node.items.length; i++) {
+      if (node.children) this.collectValues(node.children[i], values);
+      values.push(node.items[i].value);
+    }
+
+    if (node.children) this.collectValues(node.children[node.children.length - 1], values);
+
+    return values;
+  }
+
+  // Splits the subtree into tokens in sorted order. Returns the index following the last value in the subtree.
+  private tokenizeBTreeNode(node: IBTreeNode<T>, sharedNodes: Set<IBTreeNode<T>>, tokens: Array<DiffToken<T>>, index: number): number {
+    if (sharedNodes.has(node)) {
+      tokens.push({ index, node });
+      return index + this.getCount(node);
+    }
+
+    for (let i = 0; i < node.items.length; i++) {
+      if (node.children) index = this.tokenizeBTreeNode(node.children[i], sharedNodes, tokens, index);
+      tokens.push({ index: index++, valueNode: node.items[i] });
+    }
+
+    if (node.children) index = this.tokenizeBTreeNode(node.children[node.children.length - 1], sharedNodes, tokens, index);
+
+    return index;
+  }
+
+  // Pairs up shared nodes and equal values between the two versions. Values are first paired by reference, so only the
+  // values which were replaced need to be compared using the equalityComparer (within groups of values with the same
+  // hash code, if possible).
+  private matchDiffTokens(prevTokens: Array<DiffToken<T>>, nextTokens: Array<DiffToken<T>>) {
+    const prevIndexes = new Map<IBTreeNode<T>|IBTreeValueNode<T>, number>();
+    prevTokens.forEach((token, i) => prevIndexes.set(token.node || token.valueNode!, i));
+
+    const unmatchedNext: number[] = [];
+
+    nextTokens.forEach((token, i) => {
+      const prevIndex = prevIndexes.get(token.node || token.valueNode!);
+
+      if (prevIndex === undefined) {
+        unmatchedNext.push(i);
+      } else {
+        token.match = prevIndex;
+        prevTokens[prevIndex].match = i;
+      }
+    });
+
+    const unmatchedPrev: number[] = [];
+    prevTokens.forEach((token, i) => {
+      if (token.match === undefined) unmatchedPrev.push(i);
+    });
+
+    const getMatchKey: ((value: T) => any)|undefined =
+      this.hash || (this.hasDefaultEqualityComparer ? (value: T) => value : undefined);
+    let comparisons = 0;
+    const match = (nextIndex: number, candidates: number[]) => {
+      const nextToken = nextTokens[nextIndex];
+
+      for (let i = 0; i < candidates.length && comparisons < MAX_DIFF_COMPARISONS; i++) {
+        const prevToken = prevTokens[candidates[i]];
+        if (getMatchKey === undefined) comparisons++;
+
+        if (prevToken.match === undefined && this.equalityComparer(prevToken.valueNode!.value, nextToken.valueNode!.value)) {
+          nextToken.match = candidates[i];
+          prevToken.match = nextIndex;
+          candidates.splice(i, 1);
+          return;
+        }
+      }
+    };
+
+    if (getMatchKey === undefined) {
+      for (const nextIndex of unmatchedNext) {
+        match(nextIndex, unmatchedPrev);
+      }
+
+      return;
+    }
+
+    const unmatchedPrevByKey = new Map<any, number[]>();
+
+    for (const prevIndex of unmatchedPrev) {
+      const key = getMatchKey(prevTokens[prevIndex].valueNode!.value);
+      const candidates = unmatchedPrevByKey.get(key);
+
+      if (candidates === undefined) {
+        unmatchedPrevByKey.set(key, [prevIndex]);
+      } else {
+        candidates.push(prevIndex);
+      }
+    }
+
+    for (const nextIndex of unmatchedNext) {
+      const candidates = unmatchedPrevByKey.get(getMatchKey(nextTokens[nextIndex].valueNode!.value));
+      if (candidates !== undefined) match(nextIndex, candidates);
+    }
+  }
+
+  // Finds the matched tokens which can stay where they are: the heaviest chain of matches (weighted by the number of
+  // values in each token) which are in the same relative order in both versions. Returns a flag for each next token.
+  private getLongestIncreasingMatches(nextTokens: Array<DiffToken<T>>): boolean[] {
+    // A Fenwick tree over the positions of the previous tokens, tracking the heaviest chain ending at or before each.
+    const prevCount = nextTokens.reduce((max, token) => token.match === undefined ? max : Math.max(max, token.match + 1), 0);
+    const treeWeights: number[] = new Array(prevCount + 1).fill(0);
+    const treeTokens: number[] = new Array(prevCount + 1).fill(-1);
+    const predecessors: number[] = [];
+    let bestWeight = 0;
+    let bestToken = -1;
+
+    nextTokens.forEach((token, i) => {
+      if (token.match === undefined) return;
+
+      let chainWeight = 0;
+      let chainToken = -1;
+
+      for (let position = token.match; position > 0; position -= position & -position) {
+        if (treeWeights[position] > chainWeight) {
+          chainWeight = treeWeights[position];
+          chainToken = treeTokens[position];
+        }
+      }
+
+      const weight = chainWeight + (token.node ? this.getCount(token.node) : 1);
+      predecessors[i] = chainToken;
+
+      if (weight > bestWeight) {
+        bestWeight = weight;
+        bestToken = i;
+      }
+
+      for (let position = token.match + 1; position <= prevCount; position += position & -position) {
+        if (weight > treeWeights[position]) {
+          treeWeights[position] = weight;
+          treeTokens[position] = i;
+        }
+      }
+    });
+
+    const kept: boolean[] = [];
+
+    for (let i = bestToken; i !== -1; i = predecessors[i]) {
+      kept[i] = true;
+    }
+
+    return kept;
+  }
+
   private isLeafNode(node: IBTreeNode<T>): boolean {
     return (node as IBTreeNode<T>).children === undefined;
   }
@@ -370,6 +1324,64 @@ export class SortedCollectionAdapter<T> {
     };
   }
 
+  // Divides the items into fully packed leaf nodes. The items between adjacent leaves are returned as separators to
+  // be stored in the next level up.
+  private buildLeafLevel(items: IBTreeValueNode<T>[]) {
+    // Each leaf (other than the last) is followed by a separator.
+    const nodeCount = Math.ceil((items.length + 1) / (this.maxItemsPerLevel + 1));
+    const sizes = this.getPackedNodeSizes(items.length - (nodeCount - 1), nodeCount);
+    const nodes: IBTreeNode<T>[] = [];
+    const separators: IBTreeValueNode<T>[] = [];
+    let index = 0;
+
+    for (let i = 0; i < sizes.length; i++) {
+      if (i > 0) separators.push(items[index++]);
+
+      nodes.push(this.createBTreeNode(items.slice(index, index + sizes[i])));
+      index += sizes[i];
+    }
+
+    return { nodes, separators };
+  }
+
+  // Groups the children into fully packed internal nodes. separators[i] is the item between children[i] and
+  // children[i + 1].
+  private buildInternalLevel(children: IBTreeNode<T>[], separators: IBTreeValueNode<T>[]) {
+    const nodeCount = Math.ceil(children.length / this.maxItemsPerLevel);
+    const sizes = this.getPackedNodeSizes(children.length, nodeCount);
+    const nodes: IBTreeNode<T>[] = [];
+    const nextSeparators: IBTreeValueNode<T>[] = [];
+    let index = 0;
+
+    for (let i = 0; i < sizes.length; i++) {
+      if (i > 0) nextSeparators.push(separators[index - 1]);
+
+      nodes.push(this.createBTreeNode(separators.slice(index, index + sizes[i] - 1), children.slice(index, index + sizes[i])));
+      index += sizes[i];
+    }
+
+    return { nodes, separators: nextSeparators };
+  }
+
+  // Fills each node up to the max, then evens out the last two nodes if the last one would be deficient.
+  private getPackedNodeSizes(total: number, nodeCount: number): number[] {
+    const sizes: number[] = [];
+
+    for (let i = 0; i < nodeCount - 1; i++) {
+      sizes.push(this.maxItemsPerLevel);
+    }
+
+    sizes.push(total - (nodeCount - 1) * this.maxItemsPerLevel);
+
+    if (nodeCount > 1 && sizes[nodeCount - 1] < this.minItemsPerLevel) {
+      const combined = sizes[nodeCount - 2] + sizes[nodeCount - 1];
+      sizes[nodeCount - 2] = Math.ceil(combined / 2);
+      sizes[nodeCount - 1] = Math.floor(combined / 2);
+    }
+
+    return sizes;
+  }
+
   private findLeafNodeInsertionPoint(leafNode: IBTreeNode<T>, value: T) {
     return this.binarySearchForInsertion(leafNode.items, value);
   }
@@ -398,12 +1410,21 @@ export class SortedCollectionAdapter<T> {
       valueContainer.node.items.splice(valueContainer.index);
       containerInfo.node.items.splice(containerInfo.index, 0, valueInfo.valueNode);
 
+      this.decrementCounts(valueInfo.parentPath);
       this.rebalance(valueInfo.parentPath);
     } else {
+      this.decrementCounts(nodeInfo.parentPath);
       this.rebalance(nodeInfo.parentPath);
     }
   }
 
+  // Every node on the path to the leaf from which a value was taken has one fewer value in its subtree.
+  private decrementCounts(parentPath: ParentPath<T>) {
+    for (let i = 0; i < parentPath.length; i++) {
+      parentPath[i].node.count--;
+    }
+  }
+
   // Fix up a leaf or internal node which is deficient by taking items from nearby nodes or combining nodes.
   private rebalance(parentPath: ParentPath<T>) {
     const containerInfo = parentPath[parentPath.length - 1];
@@ -420,11 +1441,17 @@ export class SortedCollectionAdapter<T> {
         const rightItem = rightSibling.items.shift()!;
         const separator = parentInfo.node.items.splice(parentInfo.index, 1, rightItem)[0];
         containerInfo.node.items.push(separator);
+        let movedCount = 1;
 
         if (!isLeafNode) {
-          containerInfo.node.children!.push(rightSibling.children!.shift()!);
+          const movedChild = rightSibling.children!.shift()!;
+          containerInfo.node.children!.push(movedChild);
+          movedCount += movedChild.count;
         }
 
+        containerInfo.node.count += movedCount;
+        rightSibling.count -= movedCount;
+
         return;
       }
 
@@ -435,11 +1462,17 @@ export class SortedCollectionAdapter<T> {
         const leftItem = leftSibling.items.pop()!;
         const separator = parentInfo.node.items.splice(parentInfo.index - 1, 1, leftItem)[0];
         containerInfo.node.items.unshift(separator);
+        let movedCount = 1;
 
         if (!isLeafNode) {
-          containerInfo.node.children!.unshift(leftSibling.children!.pop()!);
+          const movedChild = leftSibling.children!.pop()!;
+          containerInfo.node.children!.unshift(movedChild);
+          movedCount += movedChild.count;
         }
 
+        containerInfo.node.count += movedCount;
+        leftSibling.count -= movedCount;
+
         return;
       }
 
@@ -453,6 +1486,7 @@ export class SortedCollectionAdapter<T> {
       parentInfo.index--;
       copyInto.items.push(separator);
       copyInto.items.push.apply(copyInto.items, copyFrom.items);
+      copyInto.count += 1 + copyFrom.count;
 
       if (!isLeafNode) {
         copyInto.children!.push.apply(copyInto.children, copyFrom.children!);
@@ -580,21 +1614,48 @@ export class SortedCollectionAdapter<T> {
     }
   }
 
+  private getIndexOfPath(parentPath: ParentPath<T>): number {
+    let index = 0;
+
+    for (let i = 0; i < parentPath.length; i++) {
+      const {node, index: pathIndex} = parentPath[i];
+      const isLastInPath = i === parentPath.length - 1;
+
+      if (node.children !== undefined) {
+        // The value (or the child being descended into) is preceded by the children to its left (including the child
+        // at the same index when the value is in this node) and the items which separate them.
+        const precedingChildren = isLastInPath ? pathIndex + 1 : pathIndex;
+
+        for (let c = 0; c < precedingChildren; c++) {
+          index += this.getCount(node.children[c]);
+        }
+      }
+
+      index += pathIndex;
+    }
+
+    return index;
+  }
+
+  // Value nodes in the excluded set are skipped, as if they weren't equal to the value.
   private _lookupValuePath(
     node: IBTreeNode<T>,
     value: T,
-    parentPath: ParentPath<T> = []
+    parentPath: ParentPath<T> = [],
+    excluded?: Set<IBTreeValueNode<T>>,
   ): LookupNodeInfo<T>|undefined {
     const index = this.binarySearchForLookup(node.items, value);
+    const isMatch = (valueNode: IBTreeValueNode<T>|undefined) =>
+      valueNode !== undefined && this.equalityComparer(valueNode.value, value) && !(excluded && excluded.has(valueNode));
 
     const currNode = node.items[index];
-    if (currNode && this.equalityComparer(currNode.value, value)) {
+    if (isMatch(currNode)) {
       return { valueNode: currNode, parentPath: parentPath.concat({ node, index }) };
     }
 
     for (let next = index; ; next++) {
       const nextNode = node.items[next];
-      if (nextNode && this.equalityComparer(nextNode.value, value)) {
+      if (isMatch(nextNode)) {
         return { valueNode: node.items[next], parentPath: parentPath.concat({ node, index: next }) };
       }
 
@@ -602,7 +1663,7 @@ export class SortedCollectionAdapter<T> {
         const nextChild = node.children[next];
         if (!nextChild) break;
 
-        const subtreeResult = this._lookupValuePath(nextChild, value, parentPath.concat({ node, index: next }));
+        const subtreeResult = this._lookupValuePath(nextChild, value, parentPath.concat({ node, index: next }), excluded);
         if (subtreeResult !== undefined) {
           return subtreeResult;
         }
@@ -615,7 +1676,7 @@ export class SortedCollectionAdapter<T> {
 
     for (let prev = index - 1; ; prev--) {
       const prevNode = node.items[prev];
-      if (prevNode && this.equalityComparer(prevNode.value, value)) {
+      if (isMatch(prevNode)) {
         return { valueNode: node.items[prev], parentPath: parentPath.concat({ node, index: prev }) };
       }
 
@@ -623,7 +1684,7 @@ export class SortedCollectionAdapter<T> {
         const prevChild = node.children[prev];
         if (!prevChild) break;
 
-        const subtreeResult = this._lookupValuePath(prevChild, value, parentPath.concat({ node, index: prev }));
+        const subtreeResult = this._lookupValuePath(prevChild, value, parentPath.concat({ node, index: prev }), excluded);
         if (subtreeResult !== undefined) {
           return subtreeResult;
         }
@@ -662,6 +1723,30 @@ export class SortedCollectionAdapter<T> {
     return this._binarySearch(items, value, 0, items.length - 1);
   }
 
+  // Finds the index of the first item which comes after the value (or is equal to it, unless skipEqual is set).
+  private binarySearchForBound<B>(
+    items: IBTreeValueNode<T>[],
+    bound: B,
+    skipEqual: boolean,
+    boundComparer: BoundComparer<T, B>,
+  ): number {
+    let low = 0;
+    let high = items.length;
+
+    while (low < high) {
+      const mid = Math.floor(low + (high - low) / 2);
+      const comparison = boundComparer(items[mid].value, bound);
+
+      if (comparison < 0 || (skipEqual && comparison === 0)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+
   private _binarySearch(items: IBTreeValueNode<T>[], value: T, low: number, high: number): number {
     if (high < low) {
       return low;
@@ -681,12 +1766,20 @@ export class SortedCollectionAdapter<T> {
   };
 
   private createBTreeNode(items: IBTreeValueNode<T>[], children?: Array<IBTreeNode<T>>, isRoot = false): IBTreeNode<T> {
+    let count = items.length;
+
+    if (children) {
+      for (let i = 0; i < children.length; i++) {
+        count += children[i].count;
+      }
+    }
+
     if (isRoot) {
-      return { isRoot, items };
+      return { isRoot, items, count };
     } else if (children) {
-      return { children, items };
+      return { children, items, count };
     } else {
-      return { items };
+      return { items, count };
     }
   }
 
@@ -1,3 +1,5 @@
+import produce from 'immer';
+import {IBTreeNode} from './sortedcollection';
 import {SortedMapAdapter} from './sortedmap';
 
 interface TestObject {
@@ -34,6 +36,22 @@ describe('Sorted map', () => {
     expect(Array.from(adapter.getIterable(sortedMap))).toEqual(range(1, 20).map(toTestArr));
   });
 
+  it('migrates sorted maps created by older versions', () => {
+    const adapter = new SortedMapAdapter({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 100).map(toTestArr) as Array<[string, TestObject]>);
+
+    // Older versions didn't store the counts of B-tree nodes.
+    const removeCounts = (node: IBTreeNode<any>) => {
+      delete (node as Partial<IBTreeNode<any>>).count;
+      (node.children || []).forEach(removeCounts);
+    };
+    removeCounts(sortedMap.sortedCollection.root);
+
+    expect(adapter.migrate(sortedMap)).toBe(sortedMap);
+    expect(sortedMap.sortedCollection.root.count).toBe(100);
+    expect(adapter.getAt(sortedMap, 49)).toEqual({ data: '50', order: 50 });
+  });
+
   it('gets a value iterable', () => {
     const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
     const sortedMap = adapter.create();
@@ -175,6 +193,126 @@ describe('Sorted map', () => {
     expect(Array.from(adapter.getIterable(sortedMap))).toEqual(range(1, 19).map(toTestArr));
   });
 
+  it('supports composite keys using custom hash and equals functions', () => {
+    const adapter = new SortedMapAdapter<[string, number], TestObject>({
+      getOrderingKey,
+      hash: (key) => key[1],
+      equals: (a, b) => a[0] === b[0] && a[1] === b[1],
+    });
+    const sortedMap = adapter.create();
+
+    for (let i = 1; i <= 20; i++) {
+      adapter.set(sortedMap, ['a', i], { data: `a ${i}`, order: i });
+      adapter.set(sortedMap, ['b', i], { data: `b ${i}`, order: -i });
+    }
+
+    adapter.update(sortedMap, ['a', 1], (item) => ({ ...item, order: 100 }));
+    adapter.remove(sortedMap, ['b', 20]);
+
+    expect(adapter.getSize(sortedMap)).toBe(39);
+    expect(adapter.get(sortedMap, ['b', 5])).toEqual({ data: 'b 5', order: -5 });
+    expect(adapter.has(sortedMap, ['b', 20])).toBe(false);
+    expect(adapter.getFirst(sortedMap)).toEqual({ data: 'b 19', order: -19 });
+    expect(adapter.getLast(sortedMap)).toEqual({ data: 'a 1', order: 100 });
+  });
+
+  it('sets many entries', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.create();
+
+    adapter.set(sortedMap, 'data 5', { data: 'existing', order: 100 });
+
+    const summary = adapter.setMany(sortedMap, range(1, 20).concat([7]).map(toTestArr) as Array<[string, TestObject]>);
+
+    expect(summary).toEqual({ added: 19, updated: 2, removed: 0 });
+    expect(adapter.getSize(sortedMap)).toBe(20);
+    expect(Array.from(adapter.getIterable(sortedMap))).toEqual(range(1, 20).map(toTestArr));
+  });
+
+  it('keeps the last value when setting many entries with the same new key', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.create();
+
+    adapter.setMany(sortedMap, [['a', { data: 'first', order: 2 }], ['b', { data: 'b', order: 1 }], ['a', { data: 'last', order: 0 }]]);
+
+    expect(Array.from(adapter.getIterable(sortedMap))).toEqual([
+      ['a', { data: 'last', order: 0 }],
+      ['b', { data: 'b', order: 1 }],
+    ]);
+  });
+
+  it('removes many keys', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 20).map(toTestArr) as Array<[string, TestObject]>);
+
+    const summary = adapter.removeMany(sortedMap, range(11, 30).map(i => `data ${i}`));
+
+    expect(summary).toEqual({ added: 0, updated: 0, removed: 10 });
+    expect(Array.from(adapter.getIterable(sortedMap))).toEqual(range(1, 10).map(toTestArr));
+  });
+
+  it('updates many keys', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 5).map(toTestArr) as Array<[string, TestObject]>);
+
+    const summary = adapter.updateMany(sortedMap, ['data 1', 'data 2', 'data 9'], (item, key) => ({ ...item, order: item.order + 10 }));
+
+    expect(summary).toEqual({ added: 0, updated: 2, removed: 0 });
+    expect(Array.from(adapter.getKeysIterable(sortedMap))).toEqual(['data 3', 'data 4', 'data 5', 'data 1', 'data 2']);
+  });
+
+  it('updates many keys with repeated keys and mutated values', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 100).map(toTestArr) as Array<[string, TestObject]>);
+
+    const summary = adapter.updateMany(sortedMap, ['data 1', 'data 50', 'data 1', 'data 7'], (item, key) => {
+      if (key === 'data 7') return { ...item, data: 'changed' };
+
+      item.order += 100;
+      return undefined;
+    });
+
+    // The updater isn't idempotent, so it's only called once for the repeated key.
+    expect(summary).toEqual({ added: 0, updated: 3, removed: 0 });
+    expect(adapter.get(sortedMap, 'data 1')).toEqual({ data: '1', order: 101 });
+    expect(adapter.getSize(sortedMap)).toBe(100);
+    expect(Array.from(adapter.getKeysIterable(sortedMap)).slice(-2)).toEqual(['data 1', 'data 50']);
+    expect(adapter.indexOf(sortedMap, 'data 7')).toBe(5);
+  });
+
+  it('removes and updates many keys within Immer drafts', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const initial = { sortedMap: adapter.createFrom(range(1, 100).map(toTestArr) as Array<[string, TestObject]>) };
+
+    const next = produce(initial, (draft: typeof initial) => {
+      adapter.removeMany(draft.sortedMap, ['data 3', 'data 5', 'data 3']);
+      adapter.updateMany(draft.sortedMap, ['data 8', 'data 9'], (item) => ({ ...item, order: -item.order }));
+    });
+
+    expect(Array.from(adapter.getKeysIterable(next.sortedMap))).toEqual(
+      ['data 9', 'data 8', 'data 1', 'data 2', 'data 4'].concat(range(6, 7).concat(range(10, 100)).map(i => `data ${i}`)),
+    );
+    expect(adapter.getSize(initial.sortedMap)).toBe(100);
+  });
+
+  it('diffs two versions of a sorted map', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const prev = { sortedMap: adapter.createFrom(range(1, 50).map(toTestArr) as Array<[string, TestObject]>) };
+
+    const next = produce(prev, (draft: typeof prev) => {
+      adapter.remove(draft.sortedMap, 'data 3');
+      adapter.set(draft.sortedMap, 'new', { data: 'new', order: 20.5 });
+      adapter.update(draft.sortedMap, 'data 40', (item) => ({ ...item, order: 0 }));
+      adapter.update(draft.sortedMap, 'data 41', (item) => ({ ...item, data: 'changed' }));
+    });
+
+    expect(adapter.diff(prev.sortedMap, next.sortedMap)).toEqual([
+      { type: 'remove', index: 2, key: 'data 3', value: { data: '3', order: 3 } },
+      { type: 'move', fromIndex: 39, toIndex: 0, key: 'data 40', value: { data: '40', order: 0 } },
+      { type: 'insert', index: 20, key: 'new', value: { data: 'new', order: 20.5 } },
+    ]);
+  });
+
   it('gets the first item', () => {
     const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
     const sortedMap = adapter.create();
@@ -219,6 +357,130 @@ describe('Sorted map', () => {
     expect(Array.from(adapter.getValuesIterable(sortedMap, 'backward'))).toEqual(range(1, 20).reverse().map(x => toTestArr(x)[1]));
   });
 
+  it('creates a sorted map from entries', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 20).reverse().map(toTestArr) as Array<[string, TestObject]>);
+
+    expect(adapter.getSize(sortedMap)).toEqual(20);
+    expect(Array.from(adapter.getIterable(sortedMap))).toEqual(range(1, 20).map(toTestArr));
+
+    adapter.set(sortedMap, 'data 0', { data: '0', order: 0 });
+    expect(adapter.getFirst(sortedMap)).toEqual({ data: '0', order: 0 });
+  });
+
+  it('keeps the last entry for duplicate keys when creating a sorted map', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom([
+      ['a', { data: 'a', order: 1 }],
+      ['b', { data: 'b', order: 2 }],
+      ['a', { data: 'a2', order: 3 }],
+    ], { presorted: true });
+
+    expect(adapter.getSize(sortedMap)).toEqual(2);
+    expect(Array.from(adapter.getIterable(sortedMap))).toEqual([
+      ['b', { data: 'b', order: 2 }],
+      ['a', { data: 'a2', order: 3 }],
+    ]);
+  });
+
+  it('gets items by index', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.create();
+
+    for (let i = 20; i > 0; i--) {
+      adapter.set(sortedMap, `data ${i}`, { data: i.toString(), order: i });
+    }
+
+    for (let i = 0; i < 20; i++) {
+      expect(adapter.getAt(sortedMap, i)).toEqual(toTestArr(i + 1)[1]);
+    }
+
+    expect(adapter.getAt(sortedMap, 20)).toBeUndefined();
+  });
+
+  it('gets entries by index', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 20).reverse().map(toTestArr) as Array<[string, TestObject]>);
+
+    range(1, 20).forEach((i, index) => {
+      expect(adapter.getEntryAt(sortedMap, index)).toEqual(toTestArr(i));
+    });
+    expect(adapter.getEntryAt(sortedMap, 20)).toBeUndefined();
+  });
+
+  it('updates all items in order', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 20).map(i => [`data ${i}`, { data: i.toString(), order: i * 10 }] as [string, TestObject]));
+    const keys: string[] = [];
+
+    const next = produce(sortedMap, draft => {
+      adapter.updateAllInOrder(draft, (item, key, index) => {
+        keys.push(key);
+        if (index < 10) return { data: item.data, order: index };
+        item.order = index;
+        return undefined;
+      });
+    });
+
+    expect(keys).toEqual(range(1, 20).map(i => `data ${i}`));
+    expect(Array.from(adapter.getIterable(next))).toEqual(range(1, 20).map((i, index) => [`data ${i}`, { data: i.toString(), order: index }]));
+    expect(adapter.getFirst(sortedMap)).toEqual({ data: '1', order: 10 });
+
+    // The ordering keys are kept in step with the values.
+    const withInserted = produce(next, draft => {
+      adapter.set(draft, 'data 0', { data: '0', order: 9.5 });
+    });
+    expect(adapter.indexOf(withInserted, 'data 0')).toBe(10);
+  });
+
+  it('iterates keys backward', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 20).map(toTestArr) as Array<[string, TestObject]>);
+
+    expect(Array.from(adapter.getKeysIterable(sortedMap, 'backward'))).toEqual(range(1, 20).reverse().map(i => `data ${i}`));
+    expect(Array.from(adapter.getKeysIterable(sortedMap, 'forward'))).toEqual(range(1, 20).map(i => `data ${i}`));
+  });
+
+  it('iterates ranges of ordering keys', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.createFrom(range(1, 50).map(toTestArr) as Array<[string, TestObject]>);
+
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { fromOrder: 10, toOrder: 15 }))).toEqual(range(10, 15).map(toTestArr));
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { fromOrder: 10, toOrder: 15, fromInclusive: false, toInclusive: false })))
+      .toEqual(range(11, 14).map(toTestArr));
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { fromOrder: 9.5, toOrder: 12.5, direction: 'backward' })))
+      .toEqual(range(10, 12).reverse().map(toTestArr));
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { fromOrder: 45 }))).toEqual(range(45, 50).map(toTestArr));
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { toOrder: 3, direction: 'backward' }))).toEqual(range(1, 3).reverse().map(toTestArr));
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { fromOrder: 60 }))).toEqual([]);
+
+    expect(adapter.countRange(sortedMap, { fromOrder: 10, toOrder: 15 })).toBe(6);
+    expect(adapter.countRange(sortedMap, { fromOrder: 10, toOrder: 15, toInclusive: false })).toBe(5);
+    expect(adapter.countRange(sortedMap, {})).toBe(50);
+  });
+
+  it('iterates ranges of ordering keys with a custom comparer', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey, orderComparer: (a: number, b: number) => b - a });
+    const sortedMap = adapter.createFrom(range(1, 50).map(toTestArr) as Array<[string, TestObject]>);
+
+    expect(Array.from(adapter.getRangeIterable(sortedMap, { fromOrder: 15, toOrder: 10 }))).toEqual(range(10, 15).reverse().map(toTestArr));
+  });
+
+  it('gets the index of keys', () => {
+    const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
+    const sortedMap = adapter.create();
+
+    for (let i = 1; i <= 20; i++) {
+      adapter.set(sortedMap, `data ${i}`, { data: i.toString(), order: i });
+    }
+
+    adapter.update(sortedMap, 'data 5', (item) => { item.order = 25; });
+
+    expect(adapter.indexOf(sortedMap, 'data 5')).toBe(19);
+    expect(adapter.indexOf(sortedMap, 'data 6')).toBe(4);
+    expect(adapter.indexOf(sortedMap, 'does not exist')).toBe(-1);
+  });
+
   it('indicates when it has an item', () => {
     const adapter = new SortedMapAdapter<string, TestObject>({ getOrderingKey });
     const sortedMap = adapter.create();
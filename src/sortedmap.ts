@@ -1,6 +1,7 @@
-import {IMap, MapAdapter} from './map';
-import {Comparer, ISortedCollection, SortedCollectionAdapter} from './sortedcollection';
-import {iterableToIterableIterator, mapIterable} from './util';
+import {HashFunction, IMap, KeyEqualityComparer, MapAdapter} from './map';
+import {IOrderIndexedMap, OrderIndexedMapAdapter} from './orderindexedmap';
+import {BoundComparer, Comparer, ISortedCollection, SortedCollectionAdapter, SortedCollectionRange} from './sortedcollection';
+import {BatchSummary, iterableToIterableIterator, mapIterable} from './util';
 
 export type Key = string | number;
 
@@ -16,25 +17,59 @@ export interface ISortedMap<K, V, O=any> {
 
 export type GetOrderingKey<V, O> = (value: V) => O;
 
-export class SortedMapAdapter<K extends Key, V, O=any> {
+/** A window of ordering keys, as used by SortedMapAdapter.getRangeIterable. Omitted bounds are unbounded. */
+export interface SortedMapRange<O> {
+  fromOrder?: O;
+  toOrder?: O;
+  /** Optional (defaults to true). */
+  fromInclusive?: boolean;
+  /** Optional (defaults to true). */
+  toInclusive?: boolean;
+  direction?: 'forward'|'backward';
+}
+
+/**
+ * A positional difference between two versions of a sorted map, as returned by SortedMapAdapter.diff. Indexes of
+ * removed entries (and the fromIndex of moved entries) refer to the previous version, while indexes of inserted
+ * entries (and the toIndex of moved entries) refer to the next version.
+ */
+export type SortedMapChange<K, V> =
+  { type: 'insert', index: number, key: K, value: V } |
+  { type: 'remove', index: number, key: K, value: V } |
+  { type: 'move', fromIndex: number, toIndex: number, key: K, value: V };
+
+export class SortedMapAdapter<K, V, O=any> {
   private getOrderingKey: GetOrderingKey<V, O>;
-  private mapAdapter = new MapAdapter<K, V>();
+  private indexedMapAdapter: OrderIndexedMapAdapter<K, V>;
+  private mapAdapter: MapAdapter<K, V>;
   private sortedCollectionAdapter: SortedCollectionAdapter<IKeyWithOrder<K, O>>;
-
+  // Compares the entries of the sorted collection with ordering keys, which are used as the bounds of ranges.
+  private boundComparer: BoundComparer<IKeyWithOrder<K, O>, O>;
+
+  /**
+   * @param args.getOrderingKey Gets the key used to sort a value.
+   * @param args.orderComparer Compares two ordering keys. Optional (by default uses < and >).
+   * @param args.hash A function which computes a 32 bit integer hash code for a key. Optional (by default, only string
+   *                  and number keys are supported).
+   * @param args.equals A function which tests two keys for equality. Optional (by default uses ===).
+   */
   constructor(args: {
     getOrderingKey: GetOrderingKey<V, O>,
     orderComparer?: Comparer<O>,
+    hash?: HashFunction<K>,
+    equals?: KeyEqualityComparer<K>,
   }) {
     this.getOrderingKey = args.getOrderingKey;
-
-    const orderComparer: Comparer<IKeyWithOrder<K, O>> = args.orderComparer ?
-      (a, b) => args.orderComparer!(a.order, b.order) :
-      (a, b) => a.order < b.order ? -1 : a.order > b.order ? 1 : 0;
-
-    this.sortedCollectionAdapter = new SortedCollectionAdapter({
-      equalityComparer: (a, b) => a.key === b.key,
-      orderComparer,
+    this.indexedMapAdapter = new OrderIndexedMapAdapter<K, V>({
+      indexes: [{ getOrderingKey: args.getOrderingKey, orderComparer: args.orderComparer }],
+      hash: args.hash,
+      equals: args.equals,
     });
+    this.mapAdapter = this.indexedMapAdapter.mapAdapter;
+    this.sortedCollectionAdapter = this.indexedMapAdapter.indexes[0].sortedCollectionAdapter;
+
+    const {orderComparer} = this.indexedMapAdapter.indexes[0];
+    this.boundComparer = (item, order) => orderComparer(item.order, order);
   }
 
   create(): ISortedMap<K, V, O> {
@@ -44,6 +79,31 @@ export class SortedMapAdapter<K extends Key, V, O=any> {
     };
   }
 
+  /**
+   * Creates a new Immerutable Sorted Map containing the provided entries. If a key appears more than once, the last
+   * entry for the key is used (as if set had been called for each entry in turn).
+   *
+   * @param entries The keys & values to store in the sorted map.
+   * @param options.presorted Set to true if the entries are already in sorted order, so sorting them can be skipped.
+   */
+  createFrom(entries: Array<[K, V]>, options: { presorted?: boolean } = {}): ISortedMap<K, V, O> {
+    const {map, collections} = this.indexedMapAdapter.createFrom(entries, options);
+
+    return { map, sortedCollection: collections[0] };
+  }
+
+  /**
+   * Converts a sorted map created by an older version of this library to the current format (see MapAdapter.migrate
+   * and SortedCollectionAdapter.migrate). The sorted map is converted in place (so this may be called on an Immer draft)
+   * and returned.
+   */
+  migrate(sortedMap: ISortedMap<K, V, O>): ISortedMap<K, V, O> {
+    this.mapAdapter.migrate(sortedMap.map);
+    this.sortedCollectionAdapter.migrate(sortedMap.sortedCollection);
+
+    return sortedMap;
+  }
+
   get(sortedMap: ISortedMap<K ,V, O>, key: K): V|undefined {
     return this.mapAdapter.get(sortedMap.map, key);
   }
@@ -64,59 +124,96 @@ export class SortedMapAdapter<K extends Key, V, O=any> {
     });
   }
 
-  getKeysIterable(sortedMap: ISortedMap<K, V, O>): Iterable<K> {
-    return mapIterable(this.sortedCollectionAdapter.getIterable(sortedMap.sortedCollection), (item) => {
+  getKeysIterable(sortedMap: ISortedMap<K, V, O>, direction: 'forward'|'backward' = 'forward'): Iterable<K> {
+    return mapIterable(this.sortedCollectionAdapter.getIterable(sortedMap.sortedCollection, direction), (item) => {
       return item.key;
     });
   }
 
+  /**
+   * Iterates through the entries whose ordering keys fall within the range, in sorted order (or in reverse if the
+   * direction is 'backward'). The start of the range is found by descending the sorted collection, so entries before it
+   * aren't visited.
+   *
+   * Example:
+   * ```
+   * for (const [key, event] of adapter.getRangeIterable(sortedMap, { fromOrder: start, toOrder: end })) {
+   *   console.log(key, event); // start <= event.timestamp <= end
+   * }
+   * ```
+   */
+  getRangeIterable(sortedMap: ISortedMap<K, V, O>, range: SortedMapRange<O>): Iterable<[K, V]> {
+    return mapIterable(
+      this.sortedCollectionAdapter.getRangeIterable(
+        sortedMap.sortedCollection,
+        this.toSortedCollectionRange(range),
+        this.boundComparer,
+      ),
+      (item) => [ item.key, this.mapAdapter.get(sortedMap.map, item.key)! ] as [K, V],
+    );
+  }
+
+  /** Counts the entries whose ordering keys fall within the range in O(log(n)) time. */
+  countRange(sortedMap: ISortedMap<K, V, O>, range: SortedMapRange<O>): number {
+    return this.sortedCollectionAdapter.countRange(
+      sortedMap.sortedCollection,
+      this.toSortedCollectionRange(range),
+      this.boundComparer,
+    );
+  }
+
   set(sortedMap: ISortedMap<K, V, O>, key: K, value: V): void {
-    const exists = this.mapAdapter.has(sortedMap.map, key);
+    this.indexedMapAdapter.set(this.toIndexedMap(sortedMap), key, value);
+  }
 
-    if (!exists) {
-      this.sortedCollectionAdapter.insert(sortedMap.sortedCollection, { key, order: this.getOrderingKey(value) });
-      this.mapAdapter.set(sortedMap.map, key, value);
-    } else {
-      this.update(sortedMap, key, () => value);
-    }
+  /**
+   * Stores each of the entries in the sorted map, as if set were called for each entry in turn. Keys which are new to
+   * the map are added to the map and the sorted collection in one batch each.
+   */
+  setMany(sortedMap: ISortedMap<K, V, O>, entries: Iterable<[K, V]>): BatchSummary {
+    return this.indexedMapAdapter.setMany(this.toIndexedMap(sortedMap), entries);
   }
 
   remove(sortedMap: ISortedMap<K, V, O>, key: K): void {
-    const existing = this.mapAdapter.get(sortedMap.map, key);
-    if (existing === undefined) return;
-
-    this.sortedCollectionAdapter.remove(sortedMap.sortedCollection, { key: key, order: this.getOrderingKey(existing) });
-    this.mapAdapter.remove(sortedMap.map, key);
+    this.indexedMapAdapter.remove(this.toIndexedMap(sortedMap), key);
   }
 
   update(sortedMap: ISortedMap<K, V, O>, key: K, updater: (item: V) => V|void): void|V {
-    const existing = this.mapAdapter.get(sortedMap.map, key);
-    if (!existing) return;
-
-    const existingSorted = this.sortedCollectionAdapter.lookupValuePath(
-      sortedMap.sortedCollection,
-      { key, order: this.getOrderingKey(existing) },
-    );
-
-    if (existingSorted === undefined) {
-      throw new Error(`Key ${key} not found in sorted collection`);
-    }
-
-    const updated = updater(existing) as V|undefined;
-
-    if (updated !== undefined) {
-      this.mapAdapter.set(sortedMap.map, key, updated);
-    }
+    return this.indexedMapAdapter.update(this.toIndexedMap(sortedMap), key, updater);
+  }
 
-    const updatedOrExisting = updated || existing;
-    const updatedOrderingKey = this.getOrderingKey(updatedOrExisting);
+  /**
+   * Updates each of the values in sorted order, in a single pass through the sorted map (so each node is copied at most
+   * once by Immer). The updater receives the key and index of each value, and must keep the values in the same relative
+   * order (which isn't checked), for instance when renumbering ordering keys.
+   */
+  updateAllInOrder(sortedMap: ISortedMap<K, V, O>, updater: (item: V, key: K, index: number) => V|void): void {
+    this.sortedCollectionAdapter.updateAllInOrder(sortedMap.sortedCollection, (keyWithOrder, index) => {
+      const updated = this.mapAdapter.update(sortedMap.map, keyWithOrder.key, (item) => updater(item, keyWithOrder.key, index))!;
+      const updatedKeyWithOrder = { key: keyWithOrder.key, order: this.getOrderingKey(updated) };
+
+      // Values whose ordering key is unchanged are left alone, so they aren't copied needlessly.
+      return this.sortedCollectionAdapter.orderComparer(keyWithOrder, updatedKeyWithOrder) !== 0 ?
+        updatedKeyWithOrder :
+        undefined;
+    });
+  }
 
-    if (existingSorted.valueNode.value.order !== updatedOrderingKey) {
-      existingSorted.valueNode.value.order = updatedOrderingKey;
-      this.sortedCollectionAdapter.ensureSortedOrderOfNode(sortedMap.sortedCollection, existingSorted);
-    }
+  /**
+   * Removes each of the keys from the sorted map. Keys which don't exist are ignored. The keys are removed from the map
+   * and the sorted collection in one batch each.
+   */
+  removeMany(sortedMap: ISortedMap<K, V, O>, keys: Iterable<K>): BatchSummary {
+    return this.indexedMapAdapter.removeMany(this.toIndexedMap(sortedMap), keys);
+  }
 
-    return updatedOrExisting;
+  /**
+   * Updates the value of each of the keys using an updater function, which also receives the key. Keys which don't
+   * exist are ignored. The values are updated in one batch, and then the entries whose ordering keys changed are moved
+   * within the sorted collection in one batch.
+   */
+  updateMany(sortedMap: ISortedMap<K, V, O>, keys: Iterable<K>, updater: (item: V, key: K) => V|void): BatchSummary {
+    return this.indexedMapAdapter.updateMany(this.toIndexedMap(sortedMap), keys, updater);
   }
 
   getSize(sortedMap: ISortedMap<K, V, O>): number {
@@ -139,6 +236,52 @@ export class SortedMapAdapter<K extends Key, V, O=any> {
     return this.mapAdapter.get(sortedMap.map, lastKeyWithOrder.key);
   }
 
+  /** Gets the value at the specified position in sorted order. If the index is out of range, undefined is returned. */
+  getAt(sortedMap: ISortedMap<K, V, O>, index: number): V|undefined {
+    const keyWithOrder = this.sortedCollectionAdapter.getAt(sortedMap.sortedCollection, index);
+    if (keyWithOrder === undefined) return;
+
+    return this.mapAdapter.get(sortedMap.map, keyWithOrder.key);
+  }
+
+  /**
+   * Gets the key & value at the specified position in sorted order. If the index is out of range, undefined is
+   * returned.
+   */
+  getEntryAt(sortedMap: ISortedMap<K, V, O>, index: number): [K, V]|undefined {
+    const keyWithOrder = this.sortedCollectionAdapter.getAt(sortedMap.sortedCollection, index);
+    if (keyWithOrder === undefined) return;
+
+    return [keyWithOrder.key, this.mapAdapter.get(sortedMap.map, keyWithOrder.key)!];
+  }
+
+  /** Gets the position of the specified key in sorted order, or -1 if the key is not in the map. */
+  indexOf(sortedMap: ISortedMap<K, V, O>, key: K): number {
+    return this.indexedMapAdapter.indexOf(this.toIndexedMap(sortedMap), 0, key);
+  }
+
+  /**
+   * Gets the inserts, removes and moves which turn one version of the sorted map into another (for instance, the
+   * previous and next state of an Immer producer), which is useful for animating a list. Parts of the sorted
+   * collection which are shared by both versions are skipped. Changes to values which don't affect their position are
+   * not reported. Removes are listed in order of their index in prev, followed by inserts and moves in order of their
+   * index in next.
+   */
+  diff(prev: ISortedMap<K, V, O>, next: ISortedMap<K, V, O>): Array<SortedMapChange<K, V>> {
+    return this.sortedCollectionAdapter.diff(prev.sortedCollection, next.sortedCollection).map(change => {
+      const {key} = change.value;
+
+      switch (change.type) {
+        case 'remove':
+          return { type: change.type, index: change.index, key, value: this.mapAdapter.get(prev.map, key)! };
+        case 'insert':
+          return { type: change.type, index: change.index, key, value: this.mapAdapter.get(next.map, key)! };
+        case 'move':
+          return { type: change.type, fromIndex: change.fromIndex, toIndex: change.toIndex, key, value: this.mapAdapter.get(next.map, key)! };
+      }
+    });
+  }
+
   asReadonlyMap(sortedMap: ISortedMap<K, V, O>): ReadonlyMap<K, V> {
     const readonlyMap: ReadonlyMap<K, V> = {
       [Symbol.iterator]: () => iterableToIterableIterator(this.getIterable(sortedMap))[Symbol.iterator](),
@@ -181,4 +324,15 @@ export class SortedMapAdapter<K extends Key, V, O=any> {
 
     return readonlySet;
   }
-}
\ No newline at end of file
+
+  private toIndexedMap(sortedMap: ISortedMap<K, V, O>): IOrderIndexedMap<K, V> {
+    return { map: sortedMap.map, collections: [sortedMap.sortedCollection] };
+  }
+
+  // The bounds of the sorted collection's range are the ordering keys themselves (see boundComparer).
+  private toSortedCollectionRange(range: SortedMapRange<O>): SortedCollectionRange<O> {
+    const {fromOrder, toOrder, ...options} = range;
+
+    return { ...options, from: fromOrder, to: toOrder };
+  }
+}
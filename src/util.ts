@@ -50,4 +50,26 @@ export function mapIterable<T, U>(iterable: Iterable<T>, transform: (item: T) =>
       };
     }
   };
-}
\ No newline at end of file
+}
+
+/** Counts the number of set bits in a 32 bit integer. */
+export function popCount(x: number): number {
+  x -= (x >> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >> 2) & 0x33333333);
+  x = (x + (x >> 4)) & 0x0f0f0f0f;
+  x += x >> 8;
+  x += x >> 16;
+
+  return x & 0x7f;
+}
+
+/** The number of values added, updated and removed by a batch operation. */
+export interface BatchSummary {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export function createBatchSummary(): BatchSummary {
+  return { added: 0, updated: 0, removed: 0 };
+}